@@ -1,12 +1,11 @@
 // Demo page TypeScript entry point
 import { KeyboardHistory } from '../src/KeyboardHistory';
-import type { KeyEvent } from '../src/types';
+import type { KeyEvent, ReplayProgressDetail } from '../src/types';
 
 class KeyboardHistoryDemo {
   private keyboardHistory: KeyboardHistory;
   private sessionStartTime: number | null = null;
   private updateInterval: number | null = null;
-  private replayUpdateInterval: number | null = null;
   private eventUpdateQueue: KeyEvent[] = [];
   private replayedEvents: any[] = [];
 
@@ -87,6 +86,17 @@ class KeyboardHistoryDemo {
     document.addEventListener('keyboardHistoryReplay', (event: CustomEvent) => {
       this.handleReplayEvent(event);
     });
+
+    // Replay lifecycle notifications drive the progress display
+    document.addEventListener('keyboardHistoryReplayProgress', (event: CustomEvent<ReplayProgressDetail>) => {
+      this.updateReplayProgress(event.detail);
+    });
+
+    document.addEventListener('keyboardHistoryReplayComplete', (event: CustomEvent<ReplayProgressDetail>) => {
+      this.updateUI();
+      this.updateReplayProgress(event.detail);
+      this.showNotification(`Replay completed! ${this.replayedEvents.length} events replayed.`, 'success');
+    });
   }
 
   private startRecording(): void {
@@ -175,11 +185,6 @@ class KeyboardHistoryDemo {
       // Start replay
       this.keyboardHistory.replay();
 
-      // Start updating replay progress
-      this.replayUpdateInterval = window.setInterval(() => {
-        this.updateReplayProgress();
-      }, 100);
-
       this.updateUI();
       this.showNotification(`Starting replay of ${events.length} events...`, 'success');
     } catch (error) {
@@ -190,11 +195,6 @@ class KeyboardHistoryDemo {
   private stopReplay(): void {
     try {
       this.keyboardHistory.stopReplay();
-      
-      if (this.replayUpdateInterval) {
-        clearInterval(this.replayUpdateInterval);
-        this.replayUpdateInterval = null;
-      }
 
       this.updateUI();
       this.showNotification('Replay stopped.', 'success');
@@ -216,14 +216,6 @@ class KeyboardHistoryDemo {
 
     // Update the replay display
     this.updateReplayDisplay();
-
-    // Check if replay is complete
-    if (!this.keyboardHistory.isReplaying() && this.replayUpdateInterval) {
-      clearInterval(this.replayUpdateInterval);
-      this.replayUpdateInterval = null;
-      this.updateUI();
-      this.showNotification(`Replay completed! ${this.replayedEvents.length} events replayed.`, 'success');
-    }
   }
 
   private clearEvents(): void {
@@ -366,16 +358,16 @@ class KeyboardHistoryDemo {
     return keyMap[key] || key;
   }
 
-  private updateReplayProgress(): void {
-    const events = this.keyboardHistory.getRecordedKeys();
-    const replayedCount = this.replayedEvents.length;
+  private updateReplayProgress(detail?: ReplayProgressDetail): void {
+    const replayedCount = detail ? detail.index : this.replayedEvents.length;
+    const total = detail ? detail.total : this.keyboardHistory.getRecordedKeys().length;
     
-    if (events.length === 0) {
+    if (total === 0) {
       this.replayProgress.textContent = '0%';
       return;
     }
 
-    const progress = (replayedCount / events.length) * 100;
+    const progress = (replayedCount / total) * 100;
     this.replayProgress.textContent = `${Math.round(progress)}%`;
   }
 
@@ -1,58 +1,458 @@
-import { KeyEvent, KeyboardHistoryConfig } from './types';
+import { CaptureTarget, ChordRecord, ClipboardAction, ClipboardContentMode, ClipboardRecord, Clock, CompositionRecord, CompositionUpdate, ElementContextMode, ElementDescriptor, KeyEvent, KeyFilter, KeyLocation, KeyModifiers, KeyStreamListener, KeyboardHistoryConfig, PendingKeyEvent, RedactionMode } from './types';
+import { RealClock } from './RealClock';
+import { KEY_LOCATIONS } from './EventStore';
+
+// Key and code recorded in place of keystrokes typed into sensitive fields
+const REDACTED = 'Redacted';
+
+// autocomplete tokens that mark a field as holding secrets or payment details
+const SENSITIVE_AUTOCOMPLETE = [
+  'current-password', 'new-password', 'one-time-code',
+  'cc-number', 'cc-csc', 'cc-exp', 'cc-exp-month', 'cc-exp-year'
+];
+
+const NO_MODIFIERS: KeyModifiers = {
+  ctrlKey: false,
+  shiftKey: false,
+  altKey: false,
+  metaKey: false,
+  capsLock: false,
+  numLock: false
+};
+
+// Node the capture listeners are attached to: the resolved capture target or a frame's document
+type CaptureRoot = Element | ShadowRoot | Document;
+
+interface PressedKey {
+  id: number;              // Pending event id reported to the stream listener
+  key: string;             // Normalized key identifier
+  code: string;            // Physical key code
+  downTime: number;        // Clock time of the keydown
+  modifiers: KeyModifiers; // Modifier state at keydown time
+  location: KeyLocation;   // Physical key variant at keydown time
+  compositionId?: number;  // Composition the keystroke belongs to
+  repeatCount: number;     // Auto-repeat keydowns received while held
+  redacted: boolean;       // Typed into a sensitive field; key, code, modifiers and location are masked
+  element?: ElementDescriptor; // Focused element, when elementContext is enabled
+  frames?: ElementDescriptor[]; // Child frames the key was typed in, outermost first
+  isTrusted: boolean;      // The keydown came from the user agent rather than a script
+  heldKeys: string[];      // Other keys already held at keydown, in press order
+}
+
+interface ActiveComposition {
+  id: number;
+  startTime: number;          // Clock time of compositionstart
+  data: string;               // Latest candidate text
+  updates: CompositionUpdate[];
+  redacted: boolean;          // Composing in a sensitive field; text is masked
+}
+
+interface ActiveChord {
+  startTime: number;          // Clock time the second key went down
+  keys: string[];             // Keys held during the overlap, in press order
+  codes: string[];            // Physical key codes matching keys
+  peak: number;               // Most keys held at the same time so far
+}
+
+interface WatchedFrame {
+  document: Document | null;          // Same-origin document the listeners are attached to, if any
+  observer: MutationObserver | null;  // Watches that document for iframes added later
+}
 
 /**
  * EventCapture handles DOM keyboard event management for the KeyboardHistory library.
  * Manages event listeners, calculates key press durations, and generates normalized key events
  * with session-relative timestamps (0-based from session start time).
+ * IME composition sessions are reported separately as CompositionRecords, and the keystrokes
+ * pressed while composing (usually reported with the key 'Process') are linked to them by id.
+ * Keys still held when the window loses focus or the page is hidden are recorded as interrupted.
+ * A stream listener, when set, is told about each key at key-down and again when it completes.
+ * When redaction is enabled, keystrokes in password, payment and `data-kh-redact` fields are masked or dropped.
+ * With captureClipboard, paste, cut and copy actions are reported separately as ClipboardRecords.
+ * With captureFrames, listeners are also attached to same-origin iframes inside the capture target,
+ * including iframes added or navigated while capturing.
+ * Script-dispatched (untrusted) events can be ignored with trustedOnly or labelled with recordTrusted.
+ * Each key records the other keys held at its keydown, and every stretch of time with two or more
+ * keys held is reported as a ChordRecord.
  */
 export class EventCapture {
   private isCapturing: boolean = false;
-  private keyDownTimes: Map<string, number> = new Map();
+  private isPaused: boolean = false;
+  private pressedKeys: Map<string, PressedKey> = new Map();
   private captureRepeats: boolean;
   private timestampPrecision: number;
   private onEventCallback?: (event: KeyEvent) => void;
+  private onCompositionCallback?: (composition: CompositionRecord) => void;
+  private onClipboardCallback?: (record: ClipboardRecord) => void;
+  private onChordCallback?: (chord: ChordRecord) => void;
+  private activeChord: ActiveChord | null = null;
+  private activeComposition: ActiveComposition | null = null;
+  private nextCompositionId: number = 1;
+  private streamListener?: KeyStreamListener;
+  private nextPendingId: number = 1;
   private sessionStartTime: number = 0;
+  private clock: Clock;
+  private captureTarget?: CaptureTarget;
+  private captureRoot: CaptureRoot | null = null;
+  private filter?: KeyFilter;
+  private includeKeys?: string[];
+  private excludeKeys?: string[];
+  private excludeCodes?: string[];
+  private redaction: RedactionMode;
+  private elementContext: ElementContextMode;
+  private elementAttribute?: string;
+  private captureClipboard: boolean;
+  private clipboardContent: ClipboardContentMode;
+  private captureFrames: boolean;
+  private frames: Map<HTMLIFrameElement, WatchedFrame> = new Map();
+  private rootObserver: MutationObserver | null = null;
+  private trustedOnly: boolean;
+  private recordTrusted: boolean;
 
   constructor(config?: KeyboardHistoryConfig) {
     this.captureRepeats = config?.captureRepeats ?? true;
     this.timestampPrecision = config?.timestampPrecision ?? 3;
+    this.clock = config?.clock ?? new RealClock();
+    this.captureTarget = config?.captureTarget;
+    this.filter = config?.filter;
+    this.includeKeys = config?.includeKeys;
+    this.excludeKeys = config?.excludeKeys;
+    this.excludeCodes = config?.excludeCodes;
+    this.redaction = config?.redaction ?? 'off';
+    this.elementContext = config?.elementContext ?? 'none';
+    this.elementAttribute = config?.elementAttribute;
+    this.captureClipboard = config?.captureClipboard ?? false;
+    this.clipboardContent = config?.clipboardContent ?? 'length';
+    this.captureFrames = config?.captureFrames ?? false;
+    this.trustedOnly = config?.trustedOnly ?? false;
+    this.recordTrusted = config?.recordTrusted ?? false;
   }
 
   /**
-   * Starts capturing keyboard events by attaching event listeners to the document.
+   * Starts capturing keyboard events by attaching event listeners to the capture target
+   * (the document unless a captureTarget is configured).
    * @param onEvent Callback function to handle captured KeyEvent objects
    * @param sessionStartTime The timestamp when the recording session started (for calculating session-relative timestamps)
+   * @param onComposition Optional callback receiving a CompositionRecord when each IME composition ends
+   * @param onClipboard Optional callback receiving a ClipboardRecord for each paste, cut and copy (with captureClipboard)
+   * @param onChord Optional callback receiving a ChordRecord each time overlapping key presses end
+   * @throws Error if the captureTarget selector does not match any element
    */
-  startCapture(onEvent: (event: KeyEvent) => void, sessionStartTime: number): void {
-    if (this.isCapturing) {
+  startCapture(
+    onEvent: (event: KeyEvent) => void,
+    sessionStartTime: number,
+    onComposition?: (composition: CompositionRecord) => void,
+    onClipboard?: (record: ClipboardRecord) => void,
+    onChord?: (chord: ChordRecord) => void
+  ): void {
+    if (this.isCapturing || this.isPaused) {
       return; // Already capturing
     }
 
+    // Resolve the target before changing state so a missing element leaves capture stopped
+    const captureRoot = this.resolveCaptureTarget();
+
     this.onEventCallback = onEvent;
+    this.onCompositionCallback = onComposition;
+    this.onClipboardCallback = onClipboard;
+    this.onChordCallback = onChord;
     this.isCapturing = true;
     this.sessionStartTime = sessionStartTime;
-    this.keyDownTimes.clear();
+    this.pressedKeys.clear();
+    this.activeChord = null;
+    this.activeComposition = null;
+    this.nextCompositionId = 1;
+    this.nextPendingId = 1;
+    this.captureRoot = captureRoot;
 
-    // Attach event listeners to document for global keyboard capture
-    document.addEventListener('keydown', this.handleKeyDown, true);
-    document.addEventListener('keyup', this.handleKeyUp, true);
+    this.attachListeners(captureRoot);
   }
 
   /**
    * Stops capturing keyboard events by removing event listeners.
    */
   stopCapture(): void {
-    if (!this.isCapturing) {
+    if (!this.isCapturing && !this.isPaused) {
       return; // Not currently capturing
     }
 
+    // A composition still open when recording stops is kept with its latest candidate text
+    if (this.activeComposition) {
+      this.finishComposition(this.activeComposition.data);
+    }
+
+    // Keys still held when recording stops are dropped, but their overlap so far is kept
+    if (this.activeChord) {
+      this.finishChord();
+    }
+
+    // Listeners are already detached while paused
+    if (this.isCapturing) {
+      this.detachListeners(this.captureRoot ?? document);
+    }
+
     this.isCapturing = false;
-    this.keyDownTimes.clear();
+    this.isPaused = false;
+    this.pressedKeys.clear();
     this.onEventCallback = undefined;
+    this.onCompositionCallback = undefined;
+    this.onClipboardCallback = undefined;
+    this.onChordCallback = undefined;
+    this.captureRoot = null;
+  }
+
+  /**
+   * Pauses capturing without ending the capture session. Held keys are recorded as interrupted,
+   * an open composition is closed, and listeners are detached until resumeCapture() is called.
+   * Composition and pending event ids keep counting across the pause.
+   */
+  pauseCapture(): void {
+    if (!this.isCapturing) {
+      return; // Not currently capturing
+    }
+
+    this.interruptPressedKeys();
+    if (this.activeComposition) {
+      this.finishComposition(this.activeComposition.data);
+    }
+
+    this.detachListeners(this.captureRoot ?? document);
+    this.isCapturing = false;
+    this.isPaused = true;
+  }
+
+  /**
+   * Resumes a paused capture session on the same capture target.
+   * @param sessionStartTime The time that session-relative timestamps are measured from after resuming;
+   *                         moving it forward by the paused time removes the pause from the timeline
+   */
+  resumeCapture(sessionStartTime: number): void {
+    if (!this.isPaused) {
+      return; // Not paused
+    }
+
+    this.isPaused = false;
+    this.isCapturing = true;
+    this.sessionStartTime = sessionStartTime;
+    this.attachListeners(this.captureRoot ?? document);
+  }
+
+  /**
+   * Returns whether capture is paused.
+   */
+  isCapturePaused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Attaches the capture listeners to a capture root and to the window and document.
+   * @param captureRoot The element, shadow root or document to capture from
+   */
+  private attachListeners(captureRoot: CaptureRoot): void {
+    this.addRootListeners(captureRoot);
+
+    // The keyup of a key held while focus leaves the page is never delivered
+    window.addEventListener('blur', this.handleFocusLoss);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+    if (this.captureFrames) {
+      this.rootObserver = this.watchForFrames(captureRoot);
+    }
+  }
+
+  /**
+   * Removes the capture listeners added by attachListeners(), including those on child frames.
+   * @param captureRoot The element, shadow root or document the listeners were attached to
+   */
+  private detachListeners(captureRoot: CaptureRoot): void {
+    this.removeRootListeners(captureRoot);
+
+    window.removeEventListener('blur', this.handleFocusLoss);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+    this.rootObserver?.disconnect();
+    this.rootObserver = null;
+    Array.from(this.frames.keys()).forEach(iframe => this.unwatchFrame(iframe));
+  }
+
+  /**
+   * Adds the keyboard, composition and clipboard listeners to a capture root or frame document.
+   * @param root The node to listen on
+   */
+  private addRootListeners(root: CaptureRoot): void {
+    // Capture-phase listeners see every keystroke inside the target's subtree
+    root.addEventListener('keydown', this.handleKeyDown as EventListener, true);
+    root.addEventListener('keyup', this.handleKeyUp as EventListener, true);
+    root.addEventListener('compositionstart', this.handleCompositionStart as EventListener, true);
+    root.addEventListener('compositionupdate', this.handleCompositionUpdate as EventListener, true);
+    root.addEventListener('compositionend', this.handleCompositionEnd as EventListener, true);
+
+    if (this.captureClipboard) {
+      root.addEventListener('paste', this.handleClipboard as EventListener, true);
+      root.addEventListener('cut', this.handleClipboard as EventListener, true);
+      root.addEventListener('copy', this.handleClipboard as EventListener, true);
+    }
+  }
+
+  /**
+   * Removes the listeners added by addRootListeners().
+   * @param root The node the listeners were added to
+   */
+  private removeRootListeners(root: CaptureRoot): void {
+    root.removeEventListener('keydown', this.handleKeyDown as EventListener, true);
+    root.removeEventListener('keyup', this.handleKeyUp as EventListener, true);
+    root.removeEventListener('compositionstart', this.handleCompositionStart as EventListener, true);
+    root.removeEventListener('compositionupdate', this.handleCompositionUpdate as EventListener, true);
+    root.removeEventListener('compositionend', this.handleCompositionEnd as EventListener, true);
+
+    if (this.captureClipboard) {
+      root.removeEventListener('paste', this.handleClipboard as EventListener, true);
+      root.removeEventListener('cut', this.handleClipboard as EventListener, true);
+      root.removeEventListener('copy', this.handleClipboard as EventListener, true);
+    }
+  }
+
+  /**
+   * Watches the iframes inside a node, and any added to it later.
+   * @param root The capture root or a frame document
+   * @returns The observer that reports added and removed iframes
+   */
+  private watchForFrames(root: CaptureRoot): MutationObserver {
+    root.querySelectorAll('iframe').forEach(iframe => this.watchFrame(iframe));
+
+    const observer = new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        mutation.addedNodes.forEach(node => this.findFrames(node).forEach(iframe => this.watchFrame(iframe)));
+        mutation.removedNodes.forEach(node => this.findFrames(node).forEach(iframe => this.unwatchFrame(iframe)));
+      });
+    });
+    observer.observe(root, { childList: true, subtree: true });
+    return observer;
+  }
+
+  /**
+   * Finds the iframes in a node added to or removed from the DOM, including the node itself.
+   * @param node The added or removed node
+   * @returns The iframe elements in it
+   */
+  private findFrames(node: Node): HTMLIFrameElement[] {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return [];
+    }
+
+    const element = node as Element;
+    const frames = Array.from(element.querySelectorAll('iframe'));
+    return element.tagName === 'IFRAME' ? [element as HTMLIFrameElement, ...frames] : frames;
+  }
+
+  /**
+   * Starts watching an iframe: its document is captured now if it is same-origin, and again
+   * each time the frame loads a new document.
+   * @param iframe The iframe element
+   */
+  private watchFrame(iframe: HTMLIFrameElement): void {
+    if (!this.frames.has(iframe)) {
+      this.frames.set(iframe, { document: null, observer: null });
+      iframe.addEventListener('load', this.handleFrameLoad);
+    }
+
+    this.attachFrameDocument(iframe);
+  }
+
+  /**
+   * Stops watching an iframe and the frames nested inside it.
+   * @param iframe The iframe element
+   */
+  private unwatchFrame(iframe: HTMLIFrameElement): void {
+    const watched = this.frames.get(iframe);
+    if (!watched) {
+      return;
+    }
+
+    this.frames.delete(iframe);
+    iframe.removeEventListener('load', this.handleFrameLoad);
 
-    // Remove event listeners
-    document.removeEventListener('keydown', this.handleKeyDown, true);
-    document.removeEventListener('keyup', this.handleKeyUp, true);
+    Array.from(this.frames.keys())
+      .filter(nested => nested.ownerDocument === watched.document)
+      .forEach(nested => this.unwatchFrame(nested));
+    this.detachFrameDocument(watched);
+  }
+
+  /**
+   * Handles an iframe load by moving the listeners to the frame's new document.
+   * @param event The load event
+   */
+  private handleFrameLoad = (event: Event): void => {
+    this.attachFrameDocument(event.target as HTMLIFrameElement);
+  };
+
+  /**
+   * Attaches the listeners to an iframe's current document if it is same-origin and not yet attached.
+   * @param iframe A watched iframe element
+   */
+  private attachFrameDocument(iframe: HTMLIFrameElement): void {
+    const watched = this.frames.get(iframe);
+    const frameDocument = this.getFrameDocument(iframe);
+    if (!watched || frameDocument === watched.document) {
+      return;
+    }
+
+    this.detachFrameDocument(watched);
+    if (!frameDocument) {
+      return;
+    }
+
+    this.addRootListeners(frameDocument);
+    // While focus is inside the frame, leaving the page blurs the frame's window rather than ours
+    frameDocument.defaultView?.addEventListener('blur', this.handleFocusLoss);
+    watched.document = frameDocument;
+    watched.observer = this.watchForFrames(frameDocument);
+  }
+
+  /**
+   * Removes the listeners from a watched frame's document.
+   * @param watched The watched frame
+   */
+  private detachFrameDocument(watched: WatchedFrame): void {
+    if (!watched.document) {
+      return;
+    }
+
+    this.removeRootListeners(watched.document);
+    watched.document.defaultView?.removeEventListener('blur', this.handleFocusLoss);
+    watched.observer?.disconnect();
+    watched.document = null;
+    watched.observer = null;
+  }
+
+  /**
+   * Returns an iframe's document if the page is allowed to access it.
+   * @param iframe The iframe element
+   * @returns The frame's document, or null for cross-origin or unloaded frames
+   */
+  private getFrameDocument(iframe: HTMLIFrameElement): Document | null {
+    try {
+      return iframe.contentDocument;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Sets the listener that receives pending events at key-down and completed events at key-up.
+   * The listener stays attached across capture sessions.
+   * @param listener The stream listener, or undefined to stop streaming
+   */
+  setStreamListener(listener?: KeyStreamListener): void {
+    this.streamListener = listener;
+  }
+
+  /**
+   * Returns the keys currently held down, in the order they were pressed.
+   * @returns Array of PendingKeyEvent objects
+   */
+  getPendingKeys(): PendingKeyEvent[] {
+    return Array.from(this.pressedKeys.values()).map(pressedKey => this.createPendingKeyEvent(pressedKey));
   }
 
   /**
@@ -62,12 +462,29 @@ export class EventCapture {
     return this.isCapturing;
   }
 
+  /**
+   * Resolves the configured capture target to the node that listeners are attached to.
+   * @returns The element, shadow root or document to capture from
+   * @throws Error if a selector does not match any element
+   */
+  private resolveCaptureTarget(): CaptureRoot {
+    if (typeof this.captureTarget === 'string') {
+      const element = document.querySelector(this.captureTarget);
+      if (!element) {
+        throw new Error(`Capture target selector "${this.captureTarget}" did not match any element`);
+      }
+      return element;
+    }
+
+    return this.captureTarget ?? document;
+  }
+
   /**
    * Handles keydown events by recording the timestamp when a key is pressed.
    * @param event The DOM KeyboardEvent
    */
   private handleKeyDown = (event: KeyboardEvent): void => {
-    if (!this.isCapturing || !this.onEventCallback) {
+    if (!this.isCapturing || !this.onEventCallback || this.isIgnoredSource(event)) {
       return;
     }
 
@@ -79,52 +496,622 @@ export class EventCapture {
     }
 
     // Record the time when the key was pressed
-    // Use a combination of key and code to handle cases where multiple keys might have the same identifier
-    const keyMapId = `${keyIdentifier}-${event.code}`;
+    const keyMapId = this.getKeyMapId(event);
     
-    if (!this.keyDownTimes.has(keyMapId) || this.captureRepeats) {
-      this.keyDownTimes.set(keyMapId, performance.now());
+    const previousPress = this.pressedKeys.get(keyMapId);
+
+    if (previousPress && event.repeat) {
+      // Auto-repeats are counted on the held key, which keeps its original press time
+      previousPress.repeatCount++;
+      return;
+    }
+
+    const redacted = this.redaction !== 'off' && this.isSensitiveTarget(event);
+    if (redacted && this.redaction === 'drop') {
+      return;
     }
+
+    const element = this.describeElement(event);
+    const frames = this.describeFrames(event);
+    const pressedKey: PressedKey = {
+      id: this.nextPendingId,
+      key: redacted ? REDACTED : keyIdentifier,
+      code: redacted ? REDACTED : event.code,
+      downTime: this.clock.now(),
+      modifiers: redacted ? { ...NO_MODIFIERS } : this.getModifiers(event),
+      location: redacted ? 'standard' : KEY_LOCATIONS[event.location] ?? 'standard',
+      compositionId: this.activeComposition?.id,
+      repeatCount: 0,
+      redacted,
+      isTrusted: event.isTrusted === true,
+      heldKeys: []
+    };
+
+    if (element) {
+      pressedKey.element = element;
+    }
+
+    if (frames) {
+      pressedKey.frames = frames;
+    }
+
+    // Filtered keys are never tracked, so their repeats and keyup are ignored too
+    if (!this.shouldCapture(this.createPendingKeyEvent(pressedKey), event)) {
+      return;
+    }
+    this.nextPendingId++;
+
+    if (previousPress) {
+      // A fresh press of a key that is still held means its keyup was lost
+      this.releasePressedKey(keyMapId, previousPress, true);
+    }
+
+    pressedKey.heldKeys = Array.from(this.pressedKeys.values()).map(heldKey => heldKey.key);
+    this.pressedKeys.set(keyMapId, pressedKey);
+    this.trackChord(pressedKey);
+
+    this.streamListener?.({ type: 'pending', event: this.createPendingKeyEvent(pressedKey) });
   };
 
+  /**
+   * Applies the include/exclude lists and the filter predicate to a key press.
+   * @param event The key press as it would be reported
+   * @param domEvent The DOM keydown event
+   * @returns True if the key should be recorded
+   */
+  private shouldCapture(event: PendingKeyEvent, domEvent: KeyboardEvent): boolean {
+    if (this.includeKeys && !this.includeKeys.includes(event.key)) {
+      return false;
+    }
+
+    if (this.excludeKeys?.includes(event.key) || this.excludeCodes?.includes(event.code)) {
+      return false;
+    }
+
+    return this.filter ? this.filter(event, domEvent) : true;
+  }
+
   /**
    * Handles keyup events by calculating duration and creating KeyEvent objects.
    * @param event The DOM KeyboardEvent
    */
   private handleKeyUp = (event: KeyboardEvent): void => {
-    if (!this.isCapturing || !this.onEventCallback) {
+    // An untrusted keyup must not end a key held by the user
+    if (!this.isCapturing || !this.onEventCallback || this.isIgnoredSource(event)) {
       return;
     }
 
-    const keyIdentifier = this.normalizeKeyIdentifier(event.key, event.code);
-    const keyMapId = `${keyIdentifier}-${event.code}`;
-    const keyDownTime = this.keyDownTimes.get(keyMapId);
+    const keyMapId = this.getKeyMapId(event);
+    const pressedKey = this.pressedKeys.get(keyMapId);
 
-    if (keyDownTime === undefined) {
+    if (pressedKey === undefined) {
       // Key was pressed before capture started, ignore
       return;
     }
 
-    const keyUpTime = performance.now();
+    this.releasePressedKey(keyMapId, pressedKey, false);
+  };
+
+  /**
+   * Handles window blur by recording every held key as interrupted.
+   * With trustedOnly, a blur dispatched by a script does not end the keys the user is holding.
+   * @param event The DOM blur event
+   */
+  private handleFocusLoss = (event: Event): void => {
+    if (!this.isCapturing || this.isIgnoredSource(event)) {
+      return;
+    }
+
+    this.interruptPressedKeys();
+  };
+
+  /**
+   * Handles visibilitychange by recording every held key as interrupted once the page is hidden.
+   * @param event The DOM visibilitychange event
+   */
+  private handleVisibilityChange = (event: Event): void => {
+    if (!this.isCapturing || this.isIgnoredSource(event) || document.visibilityState !== 'hidden') {
+      return;
+    }
+
+    this.interruptPressedKeys();
+  };
+
+  /**
+   * Emits a KeyEvent for each held key with its duration truncated at the current time.
+   */
+  private interruptPressedKeys(): void {
+    Array.from(this.pressedKeys.entries()).forEach(([keyMapId, pressedKey]) => {
+      this.releasePressedKey(keyMapId, pressedKey, true);
+    });
+  }
+
+  /**
+   * Creates the KeyEvent for a pressed key released now and sends it to the callback.
+   * @param keyMapId The key's entry in the pressed key map
+   * @param pressedKey The state recorded at keydown
+   * @param interrupted Whether the key was released without a keyup
+   */
+  private releasePressedKey(keyMapId: string, pressedKey: PressedKey, interrupted: boolean): void {
+    const keyDownTime = pressedKey.downTime;
+
+    const keyUpTime = this.clock.now();
     const duration = this.roundToPrecision(keyUpTime - keyDownTime, this.timestampPrecision);
     // Calculate session-relative timestamp (milliseconds from session start)
     const sessionRelativeTimestamp = this.roundToPrecision(keyDownTime - this.sessionStartTime, this.timestampPrecision);
 
     // Create the KeyEvent object
     const keyEvent: KeyEvent = {
-      key: keyIdentifier,
+      key: pressedKey.key,
       duration: duration,
       timestamp: sessionRelativeTimestamp,
-      code: event.code
+      code: pressedKey.code,
+      modifiers: pressedKey.modifiers,
+      location: pressedKey.location
     };
 
+    if (pressedKey.compositionId !== undefined) {
+      keyEvent.compositionId = pressedKey.compositionId;
+    }
+
+    if (pressedKey.repeatCount > 0) {
+      keyEvent.repeatCount = pressedKey.repeatCount;
+    }
+
+    if (pressedKey.redacted) {
+      keyEvent.redacted = true;
+    }
+
+    if (pressedKey.element) {
+      keyEvent.element = pressedKey.element;
+    }
+
+    if (pressedKey.frames) {
+      keyEvent.frames = pressedKey.frames;
+    }
+
+    if (this.recordTrusted) {
+      keyEvent.isTrusted = pressedKey.isTrusted;
+    }
+
+    if (interrupted) {
+      keyEvent.interrupted = true;
+    }
+
+    if (pressedKey.heldKeys.length > 0) {
+      keyEvent.heldKeys = pressedKey.heldKeys;
+    }
+
     // Remove the key from tracking map
-    this.keyDownTimes.delete(keyMapId);
+    this.pressedKeys.delete(keyMapId);
 
     // Send the event to the callback
-    this.onEventCallback(keyEvent);
+    this.onEventCallback?.(keyEvent);
+    this.streamListener?.({ type: 'complete', id: pressedKey.id, event: keyEvent });
+
+    if (this.activeChord && this.pressedKeys.size < 2) {
+      this.finishChord();
+    }
+  }
+
+  /**
+   * Opens or extends the active chord when a newly pressed key overlaps keys already held.
+   * @param pressedKey The key that was just added to pressedKeys
+   */
+  private trackChord(pressedKey: PressedKey): void {
+    if (this.pressedKeys.size < 2) {
+      return;
+    }
+
+    if (!this.activeChord) {
+      const heldKeys = Array.from(this.pressedKeys.values());
+      this.activeChord = {
+        startTime: pressedKey.downTime,
+        keys: heldKeys.map(heldKey => heldKey.key),
+        codes: heldKeys.map(heldKey => heldKey.code),
+        peak: heldKeys.length
+      };
+      return;
+    }
+
+    this.activeChord.keys.push(pressedKey.key);
+    this.activeChord.codes.push(pressedKey.code);
+    this.activeChord.peak = Math.max(this.activeChord.peak, this.pressedKeys.size);
+  }
+
+  /**
+   * Closes the active chord and sends its record to the chord callback.
+   */
+  private finishChord(): void {
+    const chord = this.activeChord!;
+    this.activeChord = null;
+
+    this.onChordCallback?.({
+      keys: chord.keys,
+      codes: chord.codes,
+      timestamp: this.roundToPrecision(chord.startTime - this.sessionStartTime, this.timestampPrecision),
+      duration: this.roundToPrecision(this.clock.now() - chord.startTime, this.timestampPrecision),
+      peak: chord.peak
+    });
+  }
+
+  /**
+   * Creates the pending event reported for a key that is still held down.
+   * @param pressedKey The state recorded at keydown
+   * @returns The PendingKeyEvent
+   */
+  private createPendingKeyEvent(pressedKey: PressedKey): PendingKeyEvent {
+    const pendingEvent: PendingKeyEvent = {
+      id: pressedKey.id,
+      key: pressedKey.key,
+      code: pressedKey.code,
+      timestamp: this.roundToPrecision(pressedKey.downTime - this.sessionStartTime, this.timestampPrecision),
+      modifiers: pressedKey.modifiers,
+      location: pressedKey.location
+    };
+
+    if (pressedKey.compositionId !== undefined) {
+      pendingEvent.compositionId = pressedKey.compositionId;
+    }
+
+    if (pressedKey.element) {
+      pendingEvent.element = pressedKey.element;
+    }
+
+    if (pressedKey.frames) {
+      pendingEvent.frames = pressedKey.frames;
+    }
+
+    if (this.recordTrusted) {
+      pendingEvent.isTrusted = pressedKey.isTrusted;
+    }
+
+    if (pressedKey.heldKeys.length > 0) {
+      pendingEvent.heldKeys = pressedKey.heldKeys;
+    }
+
+    return pendingEvent;
+  }
+
+  /**
+   * Handles compositionstart by opening a composition and linking the keys that started it.
+   * @param event The DOM CompositionEvent
+   */
+  private handleCompositionStart = (event: CompositionEvent): void => {
+    if (!this.isCapturing || this.isIgnoredSource(event)) {
+      return;
+    }
+
+    const redacted = this.redaction !== 'off' && this.isSensitiveTarget(event);
+    if (redacted && this.redaction === 'drop') {
+      return;
+    }
+
+    const id = this.nextCompositionId++;
+    this.activeComposition = {
+      id,
+      startTime: this.clock.now(),
+      data: redacted ? REDACTED : event.data ?? '',
+      updates: [],
+      redacted
+    };
+
+    // The keydown that opens a composition fires before compositionstart
+    this.pressedKeys.forEach(pressedKey => {
+      if (pressedKey.compositionId === undefined) {
+        pressedKey.compositionId = id;
+      }
+    });
+  };
+
+  /**
+   * Handles compositionupdate by recording the current candidate text.
+   * @param event The DOM CompositionEvent
+   */
+  private handleCompositionUpdate = (event: CompositionEvent): void => {
+    if (!this.isCapturing || !this.activeComposition || this.isIgnoredSource(event)) {
+      return;
+    }
+
+    const data = this.activeComposition.redacted ? REDACTED : event.data ?? '';
+    this.activeComposition.data = data;
+    this.activeComposition.updates.push({
+      data,
+      timestamp: this.roundToPrecision(this.clock.now() - this.sessionStartTime, this.timestampPrecision)
+    });
+  };
+
+  /**
+   * Handles compositionend by reporting the finished composition with its committed text.
+   * Compositions that started before capture began are ignored.
+   * @param event The DOM CompositionEvent
+   */
+  private handleCompositionEnd = (event: CompositionEvent): void => {
+    if (!this.isCapturing || !this.activeComposition || this.isIgnoredSource(event)) {
+      return;
+    }
+
+    const text = this.activeComposition.redacted ? REDACTED : event.data ?? this.activeComposition.data;
+    this.finishComposition(text);
+  };
+
+  /**
+   * Closes the active composition and sends its record to the composition callback.
+   * @param text The committed text
+   */
+  private finishComposition(text: string): void {
+    const composition = this.activeComposition!;
+    this.activeComposition = null;
+
+    const record: CompositionRecord = {
+      id: composition.id,
+      text,
+      timestamp: this.roundToPrecision(composition.startTime - this.sessionStartTime, this.timestampPrecision),
+      duration: this.roundToPrecision(this.clock.now() - composition.startTime, this.timestampPrecision),
+      updates: composition.updates
+    };
+
+    if (composition.redacted) {
+      record.redacted = true;
+    }
+
+    this.onCompositionCallback?.(record);
+  }
+
+  /**
+   * Handles paste, cut and copy by reporting a ClipboardRecord with the payload's length and,
+   * depending on clipboardContent, its hash or text.
+   * @param event The DOM ClipboardEvent
+   */
+  private handleClipboard = (event: ClipboardEvent): void => {
+    if (!this.isCapturing || this.isIgnoredSource(event)) {
+      return;
+    }
+
+    const redacted = this.redaction !== 'off' && this.isSensitiveTarget(event);
+    if (redacted && this.redaction === 'drop') {
+      return;
+    }
+
+    const text = this.getClipboardText(event);
+    const record: ClipboardRecord = {
+      action: event.type as ClipboardAction,
+      timestamp: this.roundToPrecision(this.clock.now() - this.sessionStartTime, this.timestampPrecision),
+      length: text.length
+    };
+
+    if (redacted) {
+      record.redacted = true;
+    } else if (this.clipboardContent === 'hash') {
+      record.hash = this.hashText(text);
+    } else if (this.clipboardContent === 'text') {
+      record.text = text;
+    }
+
+    const element = this.describeElement(event);
+    if (element) {
+      record.element = element;
+    }
+
+    const frames = this.describeFrames(event);
+    if (frames) {
+      record.frames = frames;
+    }
+
+    if (this.recordTrusted) {
+      record.isTrusted = event.isTrusted === true;
+    }
+
+    this.onClipboardCallback?.(record);
   };
 
+  /**
+   * Reads the plain text a clipboard action carries. A paste reports the clipboard contents; a cut
+   * or copy reports the selection, since the clipboard is only written after the event.
+   * @param event The DOM ClipboardEvent
+   * @returns The plain-text payload, or an empty string if there is none
+   */
+  private getClipboardText(event: ClipboardEvent): string {
+    if (event.type === 'paste') {
+      return event.clipboardData?.getData('text/plain') ?? '';
+    }
+
+    const target = this.getTargetElement(event);
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+      const field = target as HTMLInputElement | HTMLTextAreaElement;
+      if (field.selectionStart !== null) {
+        return field.value.slice(field.selectionStart, field.selectionEnd ?? field.selectionStart);
+      }
+    }
+
+    return window.getSelection()?.toString() ?? '';
+  }
+
+  /**
+   * Hashes text with 32-bit FNV-1a so equal payloads can be matched without storing them.
+   * Not a cryptographic hash: short payloads can be recovered by brute force.
+   * @param text The text to hash
+   * @returns The hash as 8 hexadecimal digits
+   */
+  private hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Checks whether an event should be ignored because it was dispatched by a script
+   * (isTrusted is false) while trustedOnly is enabled.
+   * @param event The DOM event
+   * @returns True if the event must not be recorded
+   */
+  private isIgnoredSource(event: Event): boolean {
+    return this.trustedOnly && event.isTrusted !== true;
+  }
+
+  /**
+   * Checks whether an event was fired in a field whose keystrokes must not be recorded:
+   * password inputs, fields with secret or payment autocomplete tokens, and anything inside
+   * an element with the data-kh-redact attribute.
+   * @param event The DOM keyboard or composition event
+   * @returns True if the event's target is sensitive
+   */
+  private isSensitiveTarget(event: Event): boolean {
+    const target = this.getTargetElement(event);
+    if (!target) {
+      return false;
+    }
+
+    if (target.closest('[data-kh-redact]')) {
+      return true;
+    }
+
+    if (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'password') {
+      return true;
+    }
+
+    const autocompleteTokens = (target.getAttribute('autocomplete') ?? '').toLowerCase().split(/\s+/);
+    return autocompleteTokens.some(token => SENSITIVE_AUTOCOMPLETE.includes(token));
+  }
+
+  /**
+   * Describes the element a key was typed into or a clipboard action happened in, as configured by elementContext.
+   * @param event The DOM keyboard or clipboard event
+   * @returns The element descriptor, or undefined if context is off or the target is not an element
+   */
+  private describeElement(event: Event): ElementDescriptor | undefined {
+    const target = this.elementContext === 'none' ? null : this.getTargetElement(event);
+    return target ? this.createDescriptor(target, this.elementContext === 'path') : undefined;
+  }
+
+  /**
+   * Describes the watched iframes an event came from, outermost first.
+   * @param event The DOM keyboard or clipboard event
+   * @returns Frame descriptors with paths, or undefined if the event came from the capture root's own document
+   */
+  private describeFrames(event: Event): ElementDescriptor[] | undefined {
+    const target = this.getTargetElement(event);
+    const frames: ElementDescriptor[] = [];
+    let frameElement = target?.ownerDocument.defaultView?.frameElement ?? null;
+
+    while (frameElement && this.frames.has(frameElement as HTMLIFrameElement)) {
+      frames.unshift(this.createDescriptor(frameElement, true));
+      frameElement = frameElement.ownerDocument.defaultView?.frameElement ?? null;
+    }
+
+    return frames.length > 0 ? frames : undefined;
+  }
+
+  /**
+   * Builds the descriptor of an element, including the shadow hosts it is nested in.
+   * @param element The element to describe
+   * @param includePath Whether to include CSS paths
+   * @returns The element descriptor
+   */
+  private createDescriptor(element: Element, includePath: boolean): ElementDescriptor {
+    const descriptor: ElementDescriptor = { tag: element.tagName.toLowerCase() };
+
+    if (element.id) {
+      descriptor.id = element.id;
+    }
+
+    const name = element.getAttribute('name');
+    if (name) {
+      descriptor.name = name;
+    }
+
+    const attribute = this.elementAttribute ? element.getAttribute(this.elementAttribute) : null;
+    if (attribute !== null) {
+      descriptor.attribute = attribute;
+    }
+
+    if (includePath) {
+      descriptor.path = this.getCssPath(element);
+    }
+
+    // Elements inside a shadow root are identified relative to their host
+    const root = element.getRootNode();
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (root as ShadowRoot).host) {
+      descriptor.host = this.createDescriptor((root as ShadowRoot).host, includePath);
+    }
+
+    return descriptor;
+  }
+
+  /**
+   * Builds a CSS selector for an element from its nearest ancestor with an id, or from the top of
+   * its document or shadow root, using :nth-of-type() where siblings share a tag.
+   * @param element The element to describe
+   * @returns A selector that matches the element within its root
+   */
+  private getCssPath(element: Element): string {
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      if (current.id) {
+        segments.unshift(/^[A-Za-z_][\w-]*$/.test(current.id)
+          ? `#${current.id}`
+          : `[id="${current.id.replace(/["\\]/g, '\\$&')}"]`);
+        break;
+      }
+
+      const node: Element = current;
+      const tag = node.tagName.toLowerCase();
+      const parent = node.parentElement;
+      const sameTagSiblings = parent
+        ? Array.from(parent.children).filter(sibling => sibling.tagName === node.tagName)
+        : [node];
+      segments.unshift(sameTagSiblings.length > 1
+        ? `${tag}:nth-of-type(${sameTagSiblings.indexOf(node) + 1})`
+        : tag);
+      current = parent;
+    }
+
+    return segments.join(' > ');
+  }
+
+  /**
+   * Returns the element an event was fired on. composedPath() is used so that the real target
+   * inside an open shadow root is found rather than its host. The node type is checked instead of
+   * instanceof so that elements from child frames, which have their own Element class, are accepted.
+   * @param event The DOM event
+   * @returns The target element, or null if the target is not an element
+   */
+  private getTargetElement(event: Event): Element | null {
+    const target = typeof event.composedPath === 'function' ? event.composedPath()[0] : event.target;
+    return (target as Node | null | undefined)?.nodeType === Node.ELEMENT_NODE ? target as Element : null;
+  }
+
+  /**
+   * Reads the modifier and lock key state from a DOM KeyboardEvent.
+   * @param event The DOM KeyboardEvent
+   * @returns The modifier state, with missing values treated as false
+   */
+  private getModifiers(event: KeyboardEvent): KeyModifiers {
+    return {
+      ctrlKey: !!event.ctrlKey,
+      shiftKey: !!event.shiftKey,
+      altKey: !!event.altKey,
+      metaKey: !!event.metaKey,
+      capsLock: typeof event.getModifierState === 'function' && event.getModifierState('CapsLock'),
+      numLock: typeof event.getModifierState === 'function' && event.getModifierState('NumLock')
+    };
+  }
+
+  /**
+   * Returns the entry a key is tracked under in pressedKeys. The physical code is used because the
+   * key value changes when a modifier goes down or up mid-press (e.g. 'a' down, 'A' up with Shift).
+   * @param event The DOM KeyboardEvent
+   * @returns The code, or the normalized key for events without a code
+   */
+  private getKeyMapId(event: KeyboardEvent): string {
+    return event.code || this.normalizeKeyIdentifier(event.key, event.code);
+  }
+
   /**
    * Normalizes key identifiers to ensure consistency across different browsers and scenarios.
    * @param key The key property from KeyboardEvent
@@ -1,23 +1,47 @@
-import { KeyEvent, KeyboardHistoryConfig, ReplaySession } from './types';
+import { Clock, KeyEvent, KeyboardHistoryConfig, ReplayMode, ReplayOptions, ReplayProgressDetail, ReplaySeekDetail, ReplaySession, TimerHandle } from './types';
+import { ReplayAbortError } from './ReplayAbortError';
+import { KEY_LOCATIONS, MODIFIER_KEYS } from './EventStore';
+import { RealClock } from './RealClock';
+import { TextInputSimulator } from './TextInputSimulator';
+
+interface HeldKey {
+  event: KeyEvent;
+  target: EventTarget;
+  releaseTimeout: TimerHandle | null;
+}
 
 /**
  * EventReplay manages the simulation of recorded keyboard events.
- * It dispatches CustomEvents with proper timing to recreate the original keyboard interactions.
+ * It dispatches CustomEvents with proper timing to recreate the original keyboard interactions,
+ * along with lifecycle notifications (start, progress, pause, resume, complete, abort) named after
+ * the replay event name (e.g. 'keyboardHistoryReplayProgress'). In 'keyboard' replay mode it dispatches
+ * real KeyboardEvent keydown/keyup pairs instead, so existing keyboard handlers respond to the replay;
+ * 'type' mode additionally types the keys into the target text field.
  */
 export class EventReplay {
   private replaySession: ReplaySession;
   private config: KeyboardHistoryConfig;
   private storedEvents: KeyEvent[];
+  private activeEvents: KeyEvent[] = [];
+  private playbackRate: number = 1;
+  private clock: Clock;
+  private replayMode: ReplayMode;
+  private heldKeys: HeldKey[] = [];
+  private pausedAt: number | null = null;
+  private textInputSimulator = new TextInputSimulator();
+  private scheduleGeneration: number = 0;
+  private replayCompletion: { resolve: () => void; reject: (error: Error) => void } | null = null;
 
   constructor(config?: KeyboardHistoryConfig) {
     this.config = config || {};
-    this.replaySession = {
-      isReplaying: false,
-      currentIndex: 0,
-      startTime: null,
-      timeoutIds: []
-    };
+    this.clock = this.config.clock ?? new RealClock();
+    this.replayMode = this.config.replayMode ?? 'custom';
+    this.replaySession = this.createIdleSession();
     this.storedEvents = [];
+
+    if (this.config.playbackRate !== undefined) {
+      this.setPlaybackRate(this.config.playbackRate);
+    }
   }
 
   /**
@@ -35,6 +59,18 @@ export class EventReplay {
    * @throws Error if replay is already in progress or events array is invalid
    */
   replay(events?: KeyEvent[]): void {
+    this.startReplay(events, null);
+  }
+
+  /**
+   * Validates the events and starts replaying them. The completion is registered before the
+   * Start notification is dispatched, so a Start listener that stops the replay rejects it.
+   * @param events Optional array of KeyEvent objects to replay. If not provided, uses stored events.
+   * @param completion Callbacks settled when the replay ends, or null
+   * @returns True if a replay was started, false if there were no events to replay
+   * @throws Error if replay is already in progress or events array is invalid
+   */
+  private startReplay(events: KeyEvent[] | undefined, completion: { resolve: () => void; reject: (error: Error) => void } | null): boolean {
     if (this.replaySession.isReplaying) {
       throw new Error('Replay is already in progress. Call stopReplay() first.');
     }
@@ -57,23 +93,74 @@ export class EventReplay {
 
     // Handle empty events array gracefully
     if (eventsToReplay.length === 0) {
-      return;
+      return false;
     }
 
     // Initialize replay session
+    this.activeEvents = [...eventsToReplay];
     this.replaySession = {
       isReplaying: true,
+      isPaused: false,
       currentIndex: 0,
-      startTime: performance.now(),
+      startTime: this.clock.now(),
+      remainingDelay: null,
       timeoutIds: []
     };
 
+    this.replayCompletion = completion;
+
     // Start replaying events
-    this.scheduleNextEvent(eventsToReplay, 0);
+    this.scheduleNextEvent(this.activeEvents, 0);
+
+    this.dispatchReplayNotification('Start', this.createProgressDetail());
+    return true;
+  }
+
+  /**
+   * Replays a sequence of keyboard events like replay(), returning a promise that settles when the replay ends.
+   * @param events Optional array of KeyEvent objects to replay. If not provided, uses stored events.
+   * @param options Optional replay options, including an AbortSignal that stops the replay when aborted
+   * @returns Promise that resolves once the last event has been dispatched (immediately for an empty array),
+   *          or rejects with a ReplayAbortError if the signal fires or stopReplay() is called first
+   */
+  replayAsync(events?: KeyEvent[], options?: ReplayOptions): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const signal = options?.signal;
+
+      if (signal?.aborted) {
+        reject(new ReplayAbortError());
+        return;
+      }
+
+      const onAbort = () => this.stopReplay();
+      const completion = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      // Validation errors thrown here reject the promise
+      if (!this.startReplay(events, completion)) {
+        // Nothing to replay
+        resolve();
+        return;
+      }
+
+      // A Start listener may already have stopped the replay and settled the completion
+      if (this.replaySession.isReplaying) {
+        signal?.addEventListener('abort', onAbort);
+      }
+    });
   }
 
   /**
    * Stops the current replay process and clears all pending timeouts.
+   * A pending replayAsync() promise is rejected with a ReplayAbortError.
    */
   stopReplay(): void {
     if (!this.replaySession.isReplaying) {
@@ -81,18 +168,163 @@ export class EventReplay {
       return;
     }
 
-    // Clear all pending timeouts
-    this.replaySession.timeoutIds.forEach(timeoutId => {
-      clearTimeout(timeoutId);
-    });
+    const progress = this.createProgressDetail();
+
+    // Clear all pending timeouts and release keys still held down
+    this.clearPendingTimeouts();
+    this.releaseHeldKeys();
 
     // Reset replay session
-    this.replaySession = {
-      isReplaying: false,
-      currentIndex: 0,
-      startTime: null,
-      timeoutIds: []
-    };
+    this.replaySession = this.createIdleSession();
+    this.activeEvents = [];
+
+    this.settleReplayCompletion(new ReplayAbortError());
+    this.dispatchReplayNotification('Abort', progress);
+  }
+
+  /**
+   * Pauses the current replay, keeping its position and the time that was left
+   * before the next event was due. Handles gracefully if no replay is active or it is already paused.
+   */
+  pauseReplay(): void {
+    if (!this.replaySession.isReplaying || this.replaySession.isPaused) {
+      return;
+    }
+
+    const remainingDelay = this.getRemainingDelay();
+
+    this.clearPendingTimeouts();
+
+    this.replaySession.isPaused = true;
+    this.replaySession.remainingDelay = remainingDelay;
+    this.pausedAt = this.clock.now();
+
+    this.dispatchReplayNotification('Pause', this.createProgressDetail());
+  }
+
+  /**
+   * Resumes a paused replay from the event it was paused on, waiting only for the
+   * time that was left before that event was due. Handles gracefully if the replay is not paused.
+   */
+  resumeReplay(): void {
+    if (!this.replaySession.isReplaying || !this.replaySession.isPaused) {
+      return;
+    }
+
+    const remainingDelay = this.replaySession.remainingDelay ?? 0;
+
+    this.replaySession.isPaused = false;
+    this.replaySession.remainingDelay = null;
+
+    if (this.activeEvents[this.replaySession.currentIndex]) {
+      // Shift the timeline so the paused event is due after the time that was left
+      this.alignTimeline(this.replaySession.currentIndex, remainingDelay);
+    } else if (this.pausedAt !== null && this.replaySession.startTime !== null) {
+      // Only key releases are left; shift the timeline by the time spent paused
+      this.replaySession.startTime += this.clock.now() - this.pausedAt;
+    }
+    this.pausedAt = null;
+
+    this.scheduleKeyReleases();
+    this.scheduleNextEvent(this.activeEvents, this.replaySession.currentIndex);
+
+    this.dispatchReplayNotification('Resume', this.createProgressDetail());
+  }
+
+  /**
+   * Moves the replay playhead to a position on the session-relative timeline of the events being replayed.
+   * The next event to fire is the first one recorded at or after the given time. Works while playing and
+   * while paused, and dispatches a seek notification listing the events that were skipped.
+   * Seeking past the last event leaves the playhead on the last event.
+   * @param timestampMs Session-relative time in milliseconds to move the playhead to
+   * @throws Error if the timestamp is not a non-negative number
+   */
+  seek(timestampMs: number): void {
+    if (typeof timestampMs !== 'number' || timestampMs < 0 || !isFinite(timestampMs)) {
+      throw new Error('Seek timestamp must be a non-negative number');
+    }
+
+    if (!this.replaySession.isReplaying) {
+      // Not currently replaying, handle gracefully
+      return;
+    }
+
+    const lastIndex = this.activeEvents.length - 1;
+    const position = Math.min(timestampMs, this.activeEvents[lastIndex].timestamp);
+    let targetIndex = this.activeEvents.findIndex(event => event.timestamp >= position);
+    if (targetIndex === -1) {
+      targetIndex = lastIndex;
+    }
+
+    this.moveToIndex(targetIndex, Math.max(0, this.activeEvents[targetIndex].timestamp - position) / this.playbackRate);
+  }
+
+  /**
+   * Moves the replay playhead so that the event at the given index fires next, immediately.
+   * Works while playing and while paused, and dispatches a seek notification listing the events that were skipped.
+   * @param index Index of the event to continue the replay from
+   * @throws Error if the index is not an integer within the events being replayed
+   */
+  seekToIndex(index: number): void {
+    if (!this.replaySession.isReplaying) {
+      // Not currently replaying, handle gracefully
+      return;
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= this.activeEvents.length) {
+      throw new Error(`Seek index must be an integer between 0 and ${this.activeEvents.length - 1}`);
+    }
+
+    this.moveToIndex(index, 0);
+  }
+
+  /**
+   * Sets the playback rate used to scale the recorded intervals between events
+   * (e.g. 2 replays twice as fast, 0.5 at half speed). Changing the rate during a replay
+   * rescales the time left before the next event instead of restarting the replay.
+   * @param rate Positive playback rate multiplier
+   * @throws Error if the rate is not a positive number
+   */
+  setPlaybackRate(rate: number): void {
+    if (typeof rate !== 'number' || rate <= 0 || !isFinite(rate)) {
+      throw new Error('Playback rate must be a positive number');
+    }
+
+    const previousRate = this.playbackRate;
+
+    if (!this.replaySession.isReplaying || rate === previousRate) {
+      this.playbackRate = rate;
+      return;
+    }
+
+    // Rescale the time left before the pending event to the new rate
+    const remainingDelay = this.getRemainingDelay() * previousRate / rate;
+    this.playbackRate = rate;
+
+    if (!this.activeEvents[this.replaySession.currentIndex] && this.replaySession.startTime !== null) {
+      // Only key releases are left, so there is no event to align to; keep the timeline
+      // position reached at the previous rate (or when paused) and continue it at the new rate
+      const now = this.replaySession.isPaused && this.pausedAt !== null ? this.pausedAt : this.clock.now();
+      const position = (now - this.replaySession.startTime) * previousRate;
+      this.replaySession.startTime = now - position / rate;
+    }
+
+    if (this.replaySession.isPaused) {
+      this.replaySession.remainingDelay = remainingDelay;
+    } else {
+      this.clearPendingTimeouts();
+      this.alignTimeline(this.replaySession.currentIndex, remainingDelay);
+      this.scheduleKeyReleases();
+      this.scheduleNextEvent(this.activeEvents, this.replaySession.currentIndex);
+    }
+  }
+
+  /**
+   * Returns the current playback rate.
+   * @returns Playback rate multiplier (default: 1)
+   */
+  getPlaybackRate(): number {
+    return this.playbackRate;
   }
 
   /**
@@ -103,6 +335,33 @@ export class EventReplay {
     return this.replaySession.isReplaying;
   }
 
+  /**
+   * Returns whether the current replay is paused.
+   * @returns True if a replay is in progress and paused, false otherwise
+   */
+  isPaused(): boolean {
+    return this.replaySession.isPaused;
+  }
+
+  /**
+   * Returns the playhead position on the session-relative timeline of the events being replayed.
+   * @returns Position in milliseconds, or 0 if no replay is in progress
+   */
+  getPosition(): number {
+    if (!this.replaySession.isReplaying) {
+      return 0;
+    }
+
+    const nextEvent = this.activeEvents[this.replaySession.currentIndex];
+
+    if (!nextEvent) {
+      // The last event is being dispatched
+      return this.activeEvents[this.activeEvents.length - 1].timestamp;
+    }
+
+    return Math.max(0, nextEvent.timestamp - this.getRemainingDelay() * this.playbackRate);
+  }
+
   /**
    * Gets the current replay session information.
    * @returns ReplaySession object with current state
@@ -110,57 +369,60 @@ export class EventReplay {
   getReplaySession(): ReplaySession {
     return {
       isReplaying: this.replaySession.isReplaying,
+      isPaused: this.replaySession.isPaused,
       currentIndex: this.replaySession.currentIndex,
       startTime: this.replaySession.startTime,
+      remainingDelay: this.replaySession.remainingDelay,
       timeoutIds: [...this.replaySession.timeoutIds] // Return copy to prevent external modification
     };
   }
 
   /**
    * Schedules the next event in the replay sequence with proper timing.
+   * Each event targets an absolute time derived from the session start time, so timer lateness
+   * shortens the following delay instead of accumulating across the replay.
    * @param events Array of events being replayed
    * @param eventIndex Index of the current event to schedule
    */
   private scheduleNextEvent(events: KeyEvent[], eventIndex: number): void {
     if (!this.replaySession.isReplaying || eventIndex >= events.length) {
       // Replay was stopped or we've reached the end
-      if (this.replaySession.isReplaying) {
-        // Natural completion - reset session
-        this.replaySession.isReplaying = false;
-        this.replaySession.currentIndex = 0;
-        this.replaySession.startTime = null;
-        this.replaySession.timeoutIds = [];
+      if (this.replaySession.isReplaying && this.heldKeys.length === 0) {
+        // Natural completion; otherwise it happens once the last held key is released
+        this.completeReplay();
       }
       return;
     }
 
     const currentEvent = events[eventIndex];
-    let delay = 0;
-
-    // Calculate delay based on timing
-    if (this.replaySession.startTime !== null) {
-      if (eventIndex === 0) {
-        // For the first event, use its timestamp as the delay from replay start
-        delay = currentEvent.timestamp;
-      } else {
-        // For subsequent events, calculate delay relative to the previous event
-        const previousEventTime = events[eventIndex - 1].timestamp;
-        const currentEventTime = currentEvent.timestamp;
-        delay = currentEventTime - previousEventTime;
-      }
-    }
+    const dueTime = this.getEventDueTime(currentEvent);
+    const delay = Math.max(0, dueTime - this.clock.now());
 
     // Schedule the event dispatch
-    const timeoutId = setTimeout(() => {
+    const timeoutId = this.clock.setTimeout(() => {
+      // How late the timer fired compared to the event's target time
+      const timingError = this.clock.now() - dueTime;
+
       // Remove this timeout from tracking
       this.replaySession.timeoutIds = this.replaySession.timeoutIds.filter(id => id !== timeoutId);
-      
-      // Dispatch the custom event
-      this.dispatchKeyEvent(currentEvent);
-      
-      // Update current index
+
+      // Advance before dispatching so listeners see the position right after this event
       this.replaySession.currentIndex = eventIndex + 1;
-      
+      const generation = this.scheduleGeneration;
+
+      // Dispatch the custom event
+      this.dispatchKeyEvent(currentEvent, timingError);
+
+      if (this.replaySession.isReplaying) {
+        // The timing error is also reported here for the modes that dispatch no replay event
+        this.dispatchReplayNotification('Progress', { ...this.createProgressDetail(), timingError });
+      }
+
+      if (generation !== this.scheduleGeneration) {
+        // A listener stopped, paused, moved or rescaled the replay and has taken over scheduling
+        return;
+      }
+
       // Schedule next event
       this.scheduleNextEvent(events, eventIndex + 1);
     }, delay);
@@ -169,6 +431,243 @@ export class EventReplay {
     this.replaySession.timeoutIds.push(timeoutId);
   }
 
+  /**
+   * Resets the session after the last event has been dispatched and notifies listeners.
+   */
+  private completeReplay(): void {
+    const total = this.activeEvents.length;
+    const lastTimestamp = total > 0 ? this.activeEvents[total - 1].timestamp : 0;
+
+    this.replaySession = this.createIdleSession();
+    this.activeEvents = [];
+
+    this.settleReplayCompletion();
+    this.dispatchReplayNotification<ReplayProgressDetail>('Complete', {
+      index: total,
+      total,
+      elapsed: lastTimestamp,
+      remaining: 0
+    });
+  }
+
+  /**
+   * Calculates the absolute time at which an event should be dispatched.
+   * @param event The event to calculate the target time for
+   * @returns Clock time: the session start time plus the event's
+   *          session-relative timestamp scaled by the playback rate
+   */
+  private getEventDueTime(event: KeyEvent): number {
+    const startTime = this.replaySession.startTime ?? this.clock.now();
+    return startTime + event.timestamp / this.playbackRate;
+  }
+
+  /**
+   * Shifts the session start time so that an event becomes due after the given delay.
+   * Used when resuming, seeking or changing the playback rate.
+   * @param eventIndex Index of the event that should fire next
+   * @param remainingDelay Milliseconds to wait before that event fires
+   */
+  private alignTimeline(eventIndex: number, remainingDelay: number): void {
+    const event = this.activeEvents[eventIndex];
+
+    if (event) {
+      this.replaySession.startTime = this.clock.now() + remainingDelay - event.timestamp / this.playbackRate;
+    }
+  }
+
+  /**
+   * Moves the playhead to an event and notifies listeners about the events that were skipped.
+   * @param targetIndex Index of the event that should fire next
+   * @param remainingDelay Milliseconds to wait before that event fires
+   */
+  private moveToIndex(targetIndex: number, remainingDelay: number): void {
+    const fromIndex = this.replaySession.currentIndex;
+    const skippedEvents = targetIndex > fromIndex ? this.activeEvents.slice(fromIndex, targetIndex) : [];
+
+    // Keys held at the old position are released before jumping
+    this.releaseHeldKeys();
+
+    this.replaySession.currentIndex = targetIndex;
+
+    if (this.replaySession.isPaused) {
+      this.replaySession.remainingDelay = remainingDelay;
+    } else {
+      this.clearPendingTimeouts();
+      this.alignTimeline(targetIndex, remainingDelay);
+      this.scheduleNextEvent(this.activeEvents, targetIndex);
+    }
+
+    this.dispatchReplayNotification<ReplaySeekDetail>('Seek', {
+      fromIndex,
+      toIndex: targetIndex,
+      position: this.getPosition(),
+      skippedEvents
+    });
+  }
+
+  /**
+   * Describes the current replay position for lifecycle notifications.
+   * @returns Progress detail with the next event index and elapsed/remaining timeline milliseconds
+   */
+  private createProgressDetail(): ReplayProgressDetail {
+    const total = this.activeEvents.length;
+    const lastTimestamp = total > 0 ? this.activeEvents[total - 1].timestamp : 0;
+    const elapsed = this.getPosition();
+
+    return {
+      index: this.replaySession.currentIndex,
+      total,
+      elapsed,
+      remaining: Math.max(0, lastTimestamp - elapsed)
+    };
+  }
+
+  /**
+   * Settles the promise returned by replayAsync(), if one is pending.
+   * @param error Rejection reason; the promise resolves when omitted
+   */
+  private settleReplayCompletion(error?: Error): void {
+    const completion = this.replayCompletion;
+
+    if (!completion) {
+      return;
+    }
+
+    this.replayCompletion = null;
+
+    if (error) {
+      completion.reject(error);
+    } else {
+      completion.resolve();
+    }
+  }
+
+  /**
+   * Returns the time left before the event at currentIndex fires.
+   * @returns Remaining delay in milliseconds
+   */
+  private getRemainingDelay(): number {
+    if (this.replaySession.isPaused) {
+      return this.replaySession.remainingDelay ?? 0;
+    }
+
+    const nextEvent = this.activeEvents[this.replaySession.currentIndex];
+
+    return nextEvent
+      ? Math.max(0, this.getEventDueTime(nextEvent) - this.clock.now())
+      : 0;
+  }
+
+  /**
+   * Clears all pending replay timeouts without changing the replay position.
+   */
+  private clearPendingTimeouts(): void {
+    this.replaySession.timeoutIds.forEach(timeoutId => {
+      this.clock.clearTimeout(timeoutId);
+    });
+    this.replaySession.timeoutIds = [];
+    this.scheduleGeneration++;
+
+    this.heldKeys.forEach(heldKey => {
+      if (heldKey.releaseTimeout !== null) {
+        this.clock.clearTimeout(heldKey.releaseTimeout);
+        heldKey.releaseTimeout = null;
+      }
+    });
+  }
+
+  /**
+   * Dispatches a keydown for an event and schedules its keyup after the recorded duration.
+   * @param event The KeyEvent to press
+   * @param target The resolved replay target
+   */
+  private pressKey(event: KeyEvent, target: EventTarget): void {
+    // The keyup goes to the same target as the keydown, even if the resolver would now pick another
+    const heldKey: HeldKey = { event, target, releaseTimeout: null };
+    this.heldKeys.push(heldKey);
+
+    const notCanceled = this.dispatchKeyboardEvent('keydown', heldKey);
+
+    // In 'type' mode the key edits the target's text unless a keydown listener prevented it;
+    // Ctrl/Meta combinations are shortcuts rather than typing, but Ctrl+Alt is how Windows
+    // reports AltGr, which types characters such as @, € and { on many layouts
+    const modifiers = event.modifiers;
+    const isShortcut = (!!modifiers?.ctrlKey && !modifiers.altKey) || !!modifiers?.metaKey;
+    if (this.replayMode === 'type' && notCanceled && !isShortcut) {
+      this.textInputSimulator.applyKey(heldKey.target, event.key);
+    }
+
+    // Listeners may have stopped or paused the replay while the keydown was dispatched
+    if (this.heldKeys.includes(heldKey) && this.replaySession.isReplaying && !this.replaySession.isPaused) {
+      this.scheduleKeyRelease(heldKey);
+    }
+  }
+
+  /**
+   * Schedules the keyup of a held key at its recorded release time on the replay timeline.
+   * @param heldKey The held key to release
+   */
+  private scheduleKeyRelease(heldKey: HeldKey): void {
+    const releaseTime = this.getEventDueTime(heldKey.event) + heldKey.event.duration / this.playbackRate;
+
+    heldKey.releaseTimeout = this.clock.setTimeout(() => {
+      heldKey.releaseTimeout = null;
+      this.releaseKey(heldKey);
+
+      const { isReplaying, isPaused, currentIndex } = this.replaySession;
+      if (isReplaying && !isPaused && this.heldKeys.length === 0 && currentIndex >= this.activeEvents.length) {
+        this.completeReplay();
+      }
+    }, Math.max(0, releaseTime - this.clock.now()));
+  }
+
+  /**
+   * Schedules keyups for held keys that have no pending release, e.g. after resuming.
+   */
+  private scheduleKeyReleases(): void {
+    this.heldKeys.forEach(heldKey => {
+      if (heldKey.releaseTimeout === null) {
+        this.scheduleKeyRelease(heldKey);
+      }
+    });
+  }
+
+  /**
+   * Dispatches the keyup for a held key immediately and stops tracking it.
+   * @param heldKey The held key to release
+   */
+  private releaseKey(heldKey: HeldKey): void {
+    if (heldKey.releaseTimeout !== null) {
+      this.clock.clearTimeout(heldKey.releaseTimeout);
+      heldKey.releaseTimeout = null;
+    }
+
+    this.heldKeys = this.heldKeys.filter(key => key !== heldKey);
+    this.dispatchKeyboardEvent('keyup', heldKey);
+  }
+
+  /**
+   * Releases every held key immediately so no key stays down after stopping or seeking.
+   */
+  private releaseHeldKeys(): void {
+    [...this.heldKeys].forEach(heldKey => this.releaseKey(heldKey));
+  }
+
+  /**
+   * Creates the session state used when no replay is in progress.
+   * @returns Idle ReplaySession object
+   */
+  private createIdleSession(): ReplaySession {
+    return {
+      isReplaying: false,
+      isPaused: false,
+      currentIndex: 0,
+      startTime: null,
+      remainingDelay: null,
+      timeoutIds: []
+    };
+  }
+
   /**
    * Validates an array of KeyEvent objects to ensure they have the required structure.
    * @param events Array of events to validate
@@ -206,16 +705,71 @@ export class EventReplay {
       if (event.code.trim() === '') {
         throw new Error(`Event at index ${i} has empty 'code' property`);
       }
+
+      if (event.modifiers !== undefined) {
+        const modifiers = event.modifiers;
+        if (!modifiers || typeof modifiers !== 'object' || !MODIFIER_KEYS.every(name => typeof modifiers[name] === 'boolean')) {
+          throw new Error(`Event at index ${i} has invalid 'modifiers' property: expected an object of boolean modifier flags`);
+        }
+      }
+
+      if (event.location !== undefined && !KEY_LOCATIONS.includes(event.location)) {
+        throw new Error(`Event at index ${i} has invalid 'location' property: expected one of ${KEY_LOCATIONS.join(', ')}, got ${String(event.location)}`);
+      }
+
+      if (event.compositionId !== undefined && (!Number.isInteger(event.compositionId) || event.compositionId <= 0)) {
+        throw new Error(`Event at index ${i} has invalid 'compositionId' property: expected positive integer, got ${String(event.compositionId)}`);
+      }
+
+      if (event.interrupted !== undefined && typeof event.interrupted !== 'boolean') {
+        throw new Error(`Event at index ${i} has invalid 'interrupted' property: expected boolean, got ${typeof event.interrupted}`);
+      }
+
+      if (event.repeatCount !== undefined && (!Number.isInteger(event.repeatCount) || event.repeatCount < 0)) {
+        throw new Error(`Event at index ${i} has invalid 'repeatCount' property: expected non-negative integer, got ${String(event.repeatCount)}`);
+      }
+
+      if (event.redacted !== undefined && typeof event.redacted !== 'boolean') {
+        throw new Error(`Event at index ${i} has invalid 'redacted' property: expected boolean, got ${typeof event.redacted}`);
+      }
+
+      if (event.element !== undefined && (typeof event.element !== 'object' || event.element === null || typeof event.element.tag !== 'string')) {
+        throw new Error(`Event at index ${i} has invalid 'element' property: expected object with a string tag`);
+      }
+
+      if (event.frames !== undefined && (!Array.isArray(event.frames) || event.frames.some(frame => typeof frame !== 'object' || frame === null || typeof frame.tag !== 'string'))) {
+        throw new Error(`Event at index ${i} has invalid 'frames' property: expected array of objects with a string tag`);
+      }
+
+      if (event.isTrusted !== undefined && typeof event.isTrusted !== 'boolean') {
+        throw new Error(`Event at index ${i} has invalid 'isTrusted' property: expected boolean, got ${typeof event.isTrusted}`);
+      }
+
+      if (event.heldKeys !== undefined && (!Array.isArray(event.heldKeys) || event.heldKeys.some(key => typeof key !== 'string'))) {
+        throw new Error(`Event at index ${i} has invalid 'heldKeys' property: expected array of strings`);
+      }
     }
   }
 
   /**
-   * Dispatches a CustomEvent to simulate a keyboard interaction.
+   * Dispatches a CustomEvent to simulate a keyboard interaction, or presses the key
+   * with real KeyboardEvents in 'keyboard' and 'type' replay modes.
    * @param event The KeyEvent to simulate
+   * @param timingError Milliseconds the dispatch happened after the event's target time
    */
-  private dispatchKeyEvent(event: KeyEvent): void {
-    // Use configurable event name, default to 'keyboardHistoryReplay'
-    const eventName = this.config.replayEventName || 'keyboardHistoryReplay';
+  private dispatchKeyEvent(event: KeyEvent, timingError: number): void {
+    const target = this.resolveReplayTarget(event);
+    if (!target) {
+      // Dispatching on the document instead would reach every other player on the page
+      return;
+    }
+
+    if (this.replayMode === 'keyboard' || this.replayMode === 'type') {
+      this.pressKey(event, target);
+      return;
+    }
+
+    const eventName = this.getReplayEventName();
     
     // Create custom event with keyboard event details
     const customEvent = new CustomEvent(eventName, {
@@ -224,14 +778,91 @@ export class EventReplay {
         code: event.code,
         duration: event.duration,
         timestamp: event.timestamp,
+        modifiers: event.modifiers,
+        location: event.location,
+        compositionId: event.compositionId,
+        interrupted: event.interrupted,
+        repeatCount: event.repeatCount,
+        redacted: event.redacted,
+        element: event.element,
+        frames: event.frames,
+        isTrusted: event.isTrusted,
+        heldKeys: event.heldKeys,
         originalTimestamp: event.timestamp,
-        replayTimestamp: performance.now()
+        replayTimestamp: this.clock.now(),
+        timingError: timingError
       },
       bubbles: true,
       cancelable: true
     });
 
-    // Dispatch the event on the document
-    document.dispatchEvent(customEvent);
+    // Dispatch the event on the configured target (the document by default)
+    target.dispatchEvent(customEvent);
+  }
+
+  /**
+   * Dispatches a synthetic KeyboardEvent carrying the recorded key and code on the held key's target.
+   * @param type 'keydown' or 'keyup'
+   * @param heldKey The held key to press or release
+   * @returns False if a listener canceled the event
+   */
+  private dispatchKeyboardEvent(type: 'keydown' | 'keyup', heldKey: HeldKey): boolean {
+    const modifiers = heldKey.event.modifiers;
+    const keyboardEvent = new KeyboardEvent(type, {
+      key: heldKey.event.key,
+      code: heldKey.event.code,
+      ctrlKey: modifiers?.ctrlKey ?? false,
+      shiftKey: modifiers?.shiftKey ?? false,
+      altKey: modifiers?.altKey ?? false,
+      metaKey: modifiers?.metaKey ?? false,
+      modifierCapsLock: modifiers?.capsLock ?? false,
+      modifierNumLock: modifiers?.numLock ?? false,
+      location: KEY_LOCATIONS.indexOf(heldKey.event.location ?? 'standard'),
+      bubbles: true,
+      cancelable: true,
+      composed: true
+    });
+
+    return heldKey.target.dispatchEvent(keyboardEvent);
+  }
+
+  /**
+   * Resolves where a replayed event is dispatched. Selectors are looked up when the event is
+   * dispatched, so elements rendered after replay starts are found. Uses the document when no
+   * target is configured.
+   * @param event The KeyEvent about to be dispatched
+   * @returns The EventTarget to dispatch on, or null if the configured selector matches nothing
+   *          or the resolver returns null
+   */
+  private resolveReplayTarget(event: KeyEvent): EventTarget | null {
+    const replayTarget = this.config.replayTarget;
+
+    if (typeof replayTarget === 'string') {
+      return document.querySelector(replayTarget);
+    }
+
+    if (typeof replayTarget === 'function') {
+      return replayTarget(event);
+    }
+
+    return replayTarget ?? document;
+  }
+
+  /**
+   * Dispatches a replay notification on the document. The event name is the replay event name
+   * followed by the notification type (e.g. 'keyboardHistoryReplaySeek').
+   * @param type Notification type appended to the replay event name
+   * @param detail Details describing the notification
+   */
+  private dispatchReplayNotification<T>(type: string, detail: T): void {
+    document.dispatchEvent(new CustomEvent<T>(`${this.getReplayEventName()}${type}`, { detail }));
+  }
+
+  /**
+   * Returns the configured replay event name.
+   * @returns Custom event name, defaulting to 'keyboardHistoryReplay'
+   */
+  private getReplayEventName(): string {
+    return this.config.replayEventName || 'keyboardHistoryReplay';
   }
 }
\ No newline at end of file
@@ -1,4 +1,10 @@
-import { KeyEvent, KeyboardHistoryConfig } from './types';
+import { KeyEvent, KeyboardHistoryConfig, KeyLocation, KeyModifiers } from './types';
+
+// Flags every KeyModifiers object must carry, shared with replay validation
+export const MODIFIER_KEYS: (keyof KeyModifiers)[] = ['ctrlKey', 'shiftKey', 'altKey', 'metaKey', 'capsLock', 'numLock'];
+
+// Key locations indexed by their KeyboardEvent.location value (DOM_KEY_LOCATION_*)
+export const KEY_LOCATIONS: KeyLocation[] = ['standard', 'left', 'right', 'numpad'];
 
 /**
  * EventStore manages in-memory storage of keyboard events during recording sessions.
@@ -75,8 +81,55 @@ export class EventStore {
       throw new Error('Event duration must be a non-negative number');
     }
 
-    if (typeof event.timestamp !== 'number' || event.timestamp <= 0 || !isFinite(event.timestamp)) {
-      throw new Error('Event timestamp must be a positive number');
+    // Timestamps are session-relative, so a key pressed the moment recording starts is at 0
+    if (typeof event.timestamp !== 'number' || event.timestamp < 0 || !isFinite(event.timestamp)) {
+      throw new Error('Event timestamp must be a non-negative number');
+    }
+
+    if (event.modifiers !== undefined) {
+      const modifiers = event.modifiers;
+      const isValidModifiers = !!modifiers && typeof modifiers === 'object' &&
+        MODIFIER_KEYS.every(name => typeof modifiers[name] === 'boolean');
+
+      if (!isValidModifiers) {
+        throw new Error('Event modifiers must be an object of boolean modifier flags');
+      }
+    }
+
+    if (event.location !== undefined && !KEY_LOCATIONS.includes(event.location)) {
+      throw new Error(`Event location must be one of: ${KEY_LOCATIONS.join(', ')}`);
+    }
+
+    if (event.compositionId !== undefined && (!Number.isInteger(event.compositionId) || event.compositionId <= 0)) {
+      throw new Error('Event compositionId must be a positive integer');
+    }
+
+    if (event.interrupted !== undefined && typeof event.interrupted !== 'boolean') {
+      throw new Error('Event interrupted flag must be a boolean');
+    }
+
+    if (event.repeatCount !== undefined && (!Number.isInteger(event.repeatCount) || event.repeatCount < 0)) {
+      throw new Error('Event repeatCount must be a non-negative integer');
+    }
+
+    if (event.redacted !== undefined && typeof event.redacted !== 'boolean') {
+      throw new Error('Event redacted flag must be a boolean');
+    }
+
+    if (event.element !== undefined && (typeof event.element !== 'object' || event.element === null || typeof event.element.tag !== 'string')) {
+      throw new Error('Event element must be an object with a string tag');
+    }
+
+    if (event.frames !== undefined && (!Array.isArray(event.frames) || event.frames.some(frame => typeof frame !== 'object' || frame === null || typeof frame.tag !== 'string'))) {
+      throw new Error('Event frames must be an array of objects with a string tag');
+    }
+
+    if (event.isTrusted !== undefined && typeof event.isTrusted !== 'boolean') {
+      throw new Error('Event isTrusted flag must be a boolean');
+    }
+
+    if (event.heldKeys !== undefined && (!Array.isArray(event.heldKeys) || event.heldKeys.some(key => typeof key !== 'string'))) {
+      throw new Error('Event heldKeys must be an array of strings');
     }
   }
 }
\ No newline at end of file
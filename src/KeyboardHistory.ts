@@ -1,10 +1,11 @@
 // Main KeyboardHistory class
 // Coordinates between EventCapture and EventStore to provide the public API
 
-import { KeyEvent, KeyboardHistoryConfig, RecordingSession } from './types';
+import { ChordRecord, ClipboardRecord, Clock, CompositionRecord, KeyEvent, KeyStreamListener, KeyboardHistoryConfig, PendingKeyEvent, RecordingSession, ReplayOptions } from './types';
 import { EventStore } from './EventStore';
 import { EventCapture } from './EventCapture';
 import { EventReplay } from './EventReplay';
+import { RealClock } from './RealClock';
 
 /**
  * KeyboardHistory is the main class that provides keyboard event recording functionality.
@@ -15,14 +16,23 @@ export class KeyboardHistory {
   private eventCapture: EventCapture;
   private eventReplay: EventReplay;
   private session: RecordingSession;
+  private compositions: CompositionRecord[] = [];
+  private clipboardActions: ClipboardRecord[] = [];
+  private chords: ChordRecord[] = [];
+  private streamListeners: Set<KeyStreamListener> = new Set();
+  private pausedAt: number | null = null;
+  private compressedPauseTime: number = 0;
   private config: KeyboardHistoryConfig;
+  private clock: Clock;
 
   /**
    * Creates a new KeyboardHistory instance with optional configuration.
    * @param config Optional configuration object for customizing behavior
    */
   constructor(config?: KeyboardHistoryConfig) {
-    this.config = config || {};
+    // Share one clock between capture and replay so their timestamps use the same time base
+    this.clock = config?.clock ?? new RealClock();
+    this.config = { ...config, clock: this.clock };
     this.eventStore = new EventStore(this.config);
     this.eventCapture = new EventCapture(this.config);
     this.eventReplay = new EventReplay(this.config);
@@ -38,6 +48,7 @@ export class KeyboardHistory {
   /**
    * Starts a new keyboard recording session.
    * If already recording, this method handles it gracefully by maintaining the current session.
+   * @throws Error if the captureTarget selector does not match any element
    */
   start(): void {
     if (this.session.isRecording) {
@@ -45,19 +56,33 @@ export class KeyboardHistory {
       return;
     }
 
+    const startTime = this.clock.now();
+
+    // Start capturing events with callback to store them, passing session start time.
+    // This throws if the capture target cannot be found, leaving the previous session intact.
+    this.eventCapture.startCapture((event: KeyEvent) => {
+      this.eventStore.addEvent(event);
+      this.session.events.push(event);
+    }, startTime, (composition: CompositionRecord) => {
+      this.addRecord(this.compositions, composition);
+    }, (record: ClipboardRecord) => {
+      this.addRecord(this.clipboardActions, record);
+    }, (chord: ChordRecord) => {
+      this.addRecord(this.chords, chord);
+    });
+
     // Clear previous session data
     this.eventStore.clear();
+    this.compositions = [];
+    this.clipboardActions = [];
+    this.chords = [];
     
     // Update session state
     this.session.isRecording = true;
-    this.session.startTime = performance.now();
+    this.session.startTime = startTime;
     this.session.events = [];
-
-    // Start capturing events with callback to store them, passing session start time
-    this.eventCapture.startCapture((event: KeyEvent) => {
-      this.eventStore.addEvent(event);
-      this.session.events.push(event);
-    }, this.session.startTime);
+    this.pausedAt = null;
+    this.compressedPauseTime = 0;
   }
 
   /**
@@ -76,6 +101,49 @@ export class KeyboardHistory {
     // Update session state
     this.session.isRecording = false;
     this.session.startTime = null;
+    this.pausedAt = null;
+    this.compressedPauseTime = 0;
+  }
+
+  /**
+   * Pauses the current recording session, keeping its events and start time.
+   * Keys held at the moment of pausing are recorded as interrupted.
+   * Handles gracefully if no recording session is active or it is already paused.
+   */
+  pause(): void {
+    if (!this.session.isRecording || this.pausedAt !== null) {
+      return;
+    }
+
+    this.eventCapture.pauseCapture();
+    this.pausedAt = this.clock.now();
+  }
+
+  /**
+   * Resumes a paused recording session. With the default 'compress' pause mode the paused
+   * interval is removed from later timestamps; with 'preserve' they keep the wall-clock gap.
+   * Handles gracefully if the session is not paused.
+   */
+  resume(): void {
+    if (!this.session.isRecording || this.pausedAt === null || this.session.startTime === null) {
+      return;
+    }
+
+    if ((this.config.pauseMode ?? 'compress') === 'compress') {
+      this.compressedPauseTime += this.clock.now() - this.pausedAt;
+    }
+    this.pausedAt = null;
+
+    this.eventCapture.resumeCapture(this.session.startTime + this.compressedPauseTime);
+  }
+
+  /**
+   * Returns whether the recording session is paused.
+   * A paused session still counts as recording until stop() is called.
+   * @returns True if paused, false otherwise
+   */
+  isPaused(): boolean {
+    return this.pausedAt !== null;
   }
 
   /**
@@ -86,6 +154,73 @@ export class KeyboardHistory {
     return this.eventStore.getAllEvents();
   }
 
+  /**
+   * Retrieves the IME composition sessions recorded in the current session.
+   * Keystrokes that belong to a composition reference it through KeyEvent.compositionId.
+   * Like key events, only the latest maxEvents compositions are kept.
+   * @returns Array of CompositionRecord objects in the order they ended
+   */
+  getRecordedCompositions(): CompositionRecord[] {
+    return [...this.compositions];
+  }
+
+  /**
+   * Retrieves the paste, cut and copy actions recorded in the current session.
+   * Only recorded when captureClipboard is enabled; they never appear in getRecordedKeys().
+   * Like key events, only the latest maxEvents actions are kept.
+   * @returns Array of ClipboardRecord objects in chronological order
+   */
+  getRecordedClipboardActions(): ClipboardRecord[] {
+    return [...this.clipboardActions];
+  }
+
+  /**
+   * Retrieves the periods in the current session during which two or more keys were held at once,
+   * such as shortcuts, gaming chords and typing rollover.
+   * Like key events, only the latest maxEvents chords are kept.
+   * @returns Array of ChordRecord objects in the order they ended
+   */
+  getRecordedChords(): ChordRecord[] {
+    return [...this.chords];
+  }
+
+  /**
+   * Subscribes to the live key stream. While recording, the listener receives a 'pending' update
+   * when a key goes down and a 'complete' update with the finished KeyEvent when it is released.
+   * @param listener Function called for every key stream update
+   * @returns Function that unsubscribes the listener
+   *
+   * @example
+   * const unsubscribe = keyboardHistory.subscribe((update) => {
+   *   if (update.type === 'pending') {
+   *     showHeldKey(update.event.id, update.event.key);
+   *   } else {
+   *     hideHeldKey(update.id);
+   *   }
+   * });
+   */
+  subscribe(listener: KeyStreamListener): () => void {
+    this.streamListeners.add(listener);
+    this.eventCapture.setStreamListener(update => {
+      this.streamListeners.forEach(streamListener => streamListener(update));
+    });
+
+    return () => {
+      this.streamListeners.delete(listener);
+      if (this.streamListeners.size === 0) {
+        this.eventCapture.setStreamListener(undefined);
+      }
+    };
+  }
+
+  /**
+   * Returns the keys currently held down in the recording session.
+   * @returns Array of PendingKeyEvent objects in the order they were pressed
+   */
+  getPendingKeys(): PendingKeyEvent[] {
+    return this.eventCapture.getPendingKeys();
+  }
+
   /**
    * Returns whether a recording session is currently active.
    * @returns True if recording, false otherwise
@@ -145,6 +280,35 @@ export class KeyboardHistory {
     }
   }
 
+  /**
+   * Replays keyboard events like replay(), returning a promise that settles when the replay ends.
+   * 
+   * @param events Optional array of KeyEvent objects to replay. If not provided, uses the current
+   *               session's recorded events.
+   * @param options Optional replay options, including an AbortSignal that stops the replay when aborted
+   * @returns Promise that resolves once the last event has been dispatched, or rejects with a
+   *          ReplayAbortError if the signal fires or stopReplay() is called first. Rejects with the
+   *          same errors replay() throws for invalid events or a replay already in progress.
+   * 
+   * @example
+   * const controller = new AbortController();
+   * try {
+   *   await keyboardHistory.replayAsync(savedEvents, { signal: controller.signal });
+   *   await keyboardHistory.replayAsync(nextStepEvents);
+   * } catch (error) {
+   *   if (error instanceof ReplayAbortError) {
+   *     console.log('Replay was cancelled');
+   *   }
+   * }
+   */
+  replayAsync(events?: KeyEvent[], options?: ReplayOptions): Promise<void> {
+    if (events === undefined) {
+      // Replay stored events
+      this.eventReplay.setStoredEvents(this.eventStore.getAllEvents());
+    }
+    return this.eventReplay.replayAsync(events, options);
+  }
+
   /**
    * Stops the current replay process if one is in progress.
    * Delegates to the EventReplay module for replay control.
@@ -153,6 +317,72 @@ export class KeyboardHistory {
     this.eventReplay.stopReplay();
   }
 
+  /**
+   * Pauses the current replay, keeping its position so it can be resumed later.
+   * Delegates to the EventReplay module for replay control.
+   */
+  pauseReplay(): void {
+    this.eventReplay.pauseReplay();
+  }
+
+  /**
+   * Resumes a paused replay from the event it was paused on, keeping the time
+   * that was left before that event was due.
+   * Delegates to the EventReplay module for replay control.
+   */
+  resumeReplay(): void {
+    this.eventReplay.resumeReplay();
+  }
+
+  /**
+   * Moves the replay playhead to a session-relative time in milliseconds.
+   * Delegates to the EventReplay module for replay control.
+   * @param timestampMs Session-relative time to continue the replay from
+   * @throws Error if the timestamp is not a non-negative number
+   */
+  seekReplay(timestampMs: number): void {
+    this.eventReplay.seek(timestampMs);
+  }
+
+  /**
+   * Moves the replay playhead so that the event at the given index fires next.
+   * Delegates to the EventReplay module for replay control.
+   * @param index Index of the event to continue the replay from
+   * @throws Error if the index is outside the events being replayed
+   */
+  seekReplayToIndex(index: number): void {
+    this.eventReplay.seekToIndex(index);
+  }
+
+  /**
+   * Sets the replay playback rate. Changing it during a replay rescales the time
+   * left before the next event instead of restarting the replay.
+   * Delegates to the EventReplay module for replay control.
+   * @param rate Positive playback rate multiplier (e.g. 2 for double speed)
+   * @throws Error if the rate is not a positive number
+   */
+  setPlaybackRate(rate: number): void {
+    this.eventReplay.setPlaybackRate(rate);
+  }
+
+  /**
+   * Returns the current replay playback rate.
+   * Delegates to the EventReplay module for state checking.
+   * @returns Playback rate multiplier
+   */
+  getPlaybackRate(): number {
+    return this.eventReplay.getPlaybackRate();
+  }
+
+  /**
+   * Returns whether the current replay is paused.
+   * Delegates to the EventReplay module for state checking.
+   * @returns True if a replay is in progress and paused, false otherwise
+   */
+  isReplayPaused(): boolean {
+    return this.eventReplay.isPaused();
+  }
+
   /**
    * Returns whether a replay is currently in progress.
    * Delegates to the EventReplay module for state checking.
@@ -161,4 +391,18 @@ export class KeyboardHistory {
   isReplaying(): boolean {
     return this.eventReplay.isReplaying();
   }
-}
\ No newline at end of file
+
+  /**
+   * Appends a composition, clipboard or chord record, removing the oldest record
+   * once maxEvents is exceeded, as the event store does for key events.
+   * @param records The record list to append to
+   * @param record The record to add
+   */
+  private addRecord<T>(records: T[], record: T): void {
+    records.push(record);
+
+    if (records.length > (this.config.maxEvents ?? 10000)) {
+      records.shift();
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Clock, TimerHandle } from './types';
+
+/**
+ * RealClock is the default Clock implementation, backed by performance.now() and the
+ * global setTimeout/clearTimeout functions.
+ */
+export class RealClock implements Clock {
+  /**
+   * Returns the current high-resolution time.
+   * @returns performance.now() in milliseconds
+   */
+  now(): number {
+    return performance.now();
+  }
+
+  /**
+   * Schedules a callback using the global setTimeout.
+   * @param callback Function to call once the delay has elapsed
+   * @param delay Delay in milliseconds
+   * @returns Handle that can be passed to clearTimeout()
+   */
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return setTimeout(callback, delay);
+  }
+
+  /**
+   * Cancels a callback scheduled with setTimeout().
+   * @param handle Handle returned by setTimeout()
+   */
+  clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * ReplayAbortError is the rejection reason of a promise-based replay that ended before
+ * its last event was dispatched, either because stopReplay() was called or its AbortSignal fired.
+ */
+export class ReplayAbortError extends Error {
+  constructor(message: string = 'Replay was aborted') {
+    super(message);
+    this.name = 'ReplayAbortError';
+  }
+}
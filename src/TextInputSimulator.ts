@@ -0,0 +1,289 @@
+// Input types whose value is free text that a keystroke can edit
+const TEXT_INPUT_TYPES = ['text', 'search', 'url', 'tel', 'password', 'email', 'number'];
+
+interface TextEdit {
+  start: number;     // Start of the replaced range
+  end: number;       // End of the replaced range (exclusive)
+  text: string;      // Text inserted in place of the range
+  inputType: string; // InputEvent.inputType reported for the edit
+}
+
+interface KeystrokeResult {
+  edit?: TextEdit;   // Text change caused by the key, if any
+  caret?: number;    // Caret position after the key, if it moves
+}
+
+interface EditableText {
+  element: HTMLElement;
+  multiline: boolean;
+  getValue(): string;
+  getSelection(): [number, number];
+  replaceRange(edit: TextEdit): void;
+  setCaret(position: number): void;
+}
+
+/**
+ * TextInputSimulator applies replayed keystrokes to text fields. Printable keys insert characters,
+ * Backspace/Delete/Enter/Tab edit the text and arrow, Home and End keys move the caret in
+ * `<input>`, `<textarea>` and contenteditable elements, firing an `input` event for every edit.
+ */
+export class TextInputSimulator {
+  /**
+   * Applies a key to the editable element behind a replay target.
+   * @param target The replay target; if it is not editable, the focused element is used instead
+   * @param key The KeyboardEvent.key value to apply
+   * @returns True if the key changed the text or moved the caret
+   */
+  applyKey(target: EventTarget, key: string): boolean {
+    const editable = this.resolveEditable(target);
+    if (!editable) {
+      return false;
+    }
+
+    const [selectionStart, selectionEnd] = editable.getSelection();
+    const result = this.interpretKey(key, editable.getValue(), selectionStart, selectionEnd, editable.multiline);
+
+    if (result.edit) {
+      editable.replaceRange(result.edit);
+      editable.setCaret(result.edit.start + result.edit.text.length);
+      editable.element.dispatchEvent(new InputEvent('input', {
+        bubbles: true,
+        inputType: result.edit.inputType,
+        data: result.edit.inputType === 'insertText' ? result.edit.text : null
+      }));
+      return true;
+    }
+
+    if (result.caret !== undefined) {
+      editable.setCaret(result.caret);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Works out how a key changes a text value and caret, without touching the DOM.
+   * @param key The KeyboardEvent.key value
+   * @param value The current text
+   * @param start Selection start
+   * @param end Selection end
+   * @param multiline Whether line breaks and tabs can be inserted
+   * @returns The resulting edit and/or caret movement
+   */
+  private interpretKey(key: string, value: string, start: number, end: number, multiline: boolean): KeystrokeResult {
+    const hasSelection = start !== end;
+
+    // Printable keys have a single character as their key value
+    if (Array.from(key).length === 1) {
+      return { edit: { start, end, text: key, inputType: 'insertText' } };
+    }
+
+    switch (key) {
+      case 'Enter':
+        return multiline ? { edit: { start, end, text: '\n', inputType: 'insertLineBreak' } } : {};
+      case 'Tab':
+        return multiline ? { edit: { start, end, text: '\t', inputType: 'insertText' } } : {};
+      case 'Backspace':
+        if (hasSelection) {
+          return { edit: { start, end, text: '', inputType: 'deleteContentBackward' } };
+        }
+        return start > 0 ? { edit: { start: start - 1, end: start, text: '', inputType: 'deleteContentBackward' } } : {};
+      case 'Delete':
+        if (hasSelection) {
+          return { edit: { start, end, text: '', inputType: 'deleteContentForward' } };
+        }
+        return end < value.length ? { edit: { start: end, end: end + 1, text: '', inputType: 'deleteContentForward' } } : {};
+      case 'ArrowLeft':
+        return { caret: hasSelection ? start : Math.max(0, start - 1) };
+      case 'ArrowRight':
+        return { caret: hasSelection ? end : Math.min(value.length, end + 1) };
+      case 'Home':
+        return { caret: value.lastIndexOf('\n', start - 1) + 1 };
+      case 'End': {
+        const lineEnd = value.indexOf('\n', end);
+        return { caret: lineEnd === -1 ? value.length : lineEnd };
+      }
+      case 'ArrowUp':
+        return { caret: multiline ? this.moveVertically(value, start, -1) : 0 };
+      case 'ArrowDown':
+        return { caret: multiline ? this.moveVertically(value, end, 1) : value.length };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Moves the caret to the same column on the previous or next line, clamped to that line's length.
+   * @param value The current text
+   * @param position The caret position
+   * @param direction -1 for the previous line, 1 for the next line
+   * @returns The new caret position
+   */
+  private moveVertically(value: string, position: number, direction: -1 | 1): number {
+    const lineStart = value.lastIndexOf('\n', position - 1) + 1;
+    const column = position - lineStart;
+
+    if (direction === -1) {
+      if (lineStart === 0) {
+        return 0;
+      }
+      const previousLineStart = value.lastIndexOf('\n', lineStart - 2) + 1;
+      return Math.min(previousLineStart + column, lineStart - 1);
+    }
+
+    const lineEnd = value.indexOf('\n', position);
+    if (lineEnd === -1) {
+      return value.length;
+    }
+    const nextLineEnd = value.indexOf('\n', lineEnd + 1);
+    return Math.min(lineEnd + 1 + column, nextLineEnd === -1 ? value.length : nextLineEnd);
+  }
+
+  /**
+   * Finds the editable element for a replay target, falling back to the focused element.
+   * @param target The replay target
+   * @returns An adapter over the editable text, or null if nothing can be edited
+   */
+  private resolveEditable(target: EventTarget): EditableText | null {
+    const candidates = [target, document.activeElement];
+
+    for (const candidate of candidates) {
+      if (candidate instanceof HTMLTextAreaElement || candidate instanceof HTMLInputElement) {
+        const isTextInput = candidate instanceof HTMLTextAreaElement || TEXT_INPUT_TYPES.includes(candidate.type);
+        if (isTextInput && !candidate.readOnly && !candidate.disabled) {
+          return this.createFieldAdapter(candidate);
+        }
+      } else if (candidate instanceof HTMLElement) {
+        const host = candidate.closest('[contenteditable]');
+        if (host instanceof HTMLElement && host.getAttribute('contenteditable') !== 'false') {
+          return this.createContentEditableAdapter(host);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates an adapter for an `<input>` or `<textarea>`.
+   * Inputs without selection support (e.g. email) are edited at the end of their value.
+   */
+  private createFieldAdapter(field: HTMLInputElement | HTMLTextAreaElement): EditableText {
+    const supportsSelection = field.selectionStart !== null;
+
+    return {
+      element: field,
+      multiline: field instanceof HTMLTextAreaElement,
+      getValue: () => field.value,
+      getSelection: () => supportsSelection
+        ? [field.selectionStart ?? field.value.length, field.selectionEnd ?? field.value.length]
+        : [field.value.length, field.value.length],
+      replaceRange: (edit) => {
+        field.value = field.value.slice(0, edit.start) + edit.text + field.value.slice(edit.end);
+      },
+      setCaret: (position) => {
+        if (supportsSelection) {
+          field.setSelectionRange(position, position);
+        }
+      }
+    };
+  }
+
+  /**
+   * Creates an adapter for a contenteditable element. Offsets count the characters of its text
+   * nodes, so existing markup is preserved; line breaks are inserted as '\n' characters.
+   */
+  private createContentEditableAdapter(host: HTMLElement): EditableText {
+    const getSelection = (): [number, number] => {
+      const selection = document.getSelection();
+      const length = (host.textContent ?? '').length;
+
+      if (!selection || selection.rangeCount === 0) {
+        return [length, length];
+      }
+
+      const range = selection.getRangeAt(0);
+      if (!host.contains(range.startContainer) || !host.contains(range.endContainer)) {
+        return [length, length];
+      }
+
+      return [
+        this.getTextOffset(host, range.startContainer, range.startOffset),
+        this.getTextOffset(host, range.endContainer, range.endOffset)
+      ];
+    };
+
+    const setCaret = (position: number): void => {
+      const selection = document.getSelection();
+      if (!selection) {
+        return;
+      }
+
+      const [node, offset] = this.locateTextOffset(host, position);
+      const range = document.createRange();
+      range.setStart(node, offset);
+      range.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    };
+
+    return {
+      element: host,
+      multiline: true,
+      getValue: () => host.textContent ?? '',
+      getSelection,
+      replaceRange: (edit) => {
+        const range = document.createRange();
+        const [startNode, startOffset] = this.locateTextOffset(host, edit.start);
+        const [endNode, endOffset] = this.locateTextOffset(host, edit.end);
+        range.setStart(startNode, startOffset);
+        range.setEnd(endNode, endOffset);
+        range.deleteContents();
+
+        if (edit.text !== '') {
+          const [node, offset] = this.locateTextOffset(host, edit.start);
+          (node as Text).insertData(offset, edit.text);
+        }
+      },
+      setCaret
+    };
+  }
+
+  /**
+   * Converts a DOM boundary point inside a host element into a character offset within its text.
+   */
+  private getTextOffset(host: HTMLElement, container: Node, offset: number): number {
+    const range = document.createRange();
+    range.selectNodeContents(host);
+    range.setEnd(container, offset);
+    return range.toString().length;
+  }
+
+  /**
+   * Converts a character offset within a host element's text into a text node and offset,
+   * creating an empty text node when the host has none.
+   */
+  private locateTextOffset(host: HTMLElement, position: number): [Text, number] {
+    const walker = document.createTreeWalker(host, NodeFilter.SHOW_TEXT);
+    let remaining = position;
+    let lastNode: Text | null = null;
+
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text;
+      if (remaining <= node.length) {
+        return [node, remaining];
+      }
+      remaining -= node.length;
+      lastNode = node;
+    }
+
+    if (lastNode) {
+      return [lastNode, lastNode.length];
+    }
+
+    const emptyNode = document.createTextNode('');
+    host.appendChild(emptyNode);
+    return [emptyNode, 0];
+  }
+}
@@ -0,0 +1,124 @@
+import { Clock, TimerHandle } from './types';
+
+interface VirtualTimer {
+  handle: number;
+  dueTime: number;
+  callback: () => void;
+}
+
+/**
+ * VirtualClock is a manually advanced Clock implementation. Time only moves when advance()
+ * or runAll() is called, which makes recording and replay deterministic in tests and lets
+ * replays run faster than real time.
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  private nextHandle: number = 1;
+  private timers: VirtualTimer[] = [];
+
+  /**
+   * Creates a new VirtualClock.
+   * @param startTime Initial value returned by now() (default: 0)
+   */
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime;
+  }
+
+  /**
+   * Returns the current virtual time.
+   * @returns Virtual time in milliseconds
+   */
+  now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Schedules a callback to run once the virtual time has advanced by the given delay.
+   * @param callback Function to call once the delay has elapsed
+   * @param delay Delay in milliseconds (negative delays are treated as 0)
+   * @returns Handle that can be passed to clearTimeout()
+   */
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.push({
+      handle,
+      dueTime: this.currentTime + Math.max(0, delay || 0),
+      callback
+    });
+    return handle;
+  }
+
+  /**
+   * Cancels a callback scheduled with setTimeout().
+   * @param handle Handle returned by setTimeout()
+   */
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.handle !== handle);
+  }
+
+  /**
+   * Advances the virtual time, running every timer that becomes due in chronological order.
+   * Timers scheduled by those callbacks also run if they fall within the advanced interval.
+   * @param ms Number of milliseconds to advance
+   * @throws Error if ms is not a non-negative number
+   */
+  advance(ms: number): void {
+    if (typeof ms !== 'number' || ms < 0 || !isFinite(ms)) {
+      throw new Error('Virtual clock can only advance by a non-negative number of milliseconds');
+    }
+
+    const targetTime = this.currentTime + ms;
+    let timer = this.takeNextTimer(targetTime);
+
+    while (timer) {
+      this.currentTime = timer.dueTime;
+      timer.callback();
+      timer = this.takeNextTimer(targetTime);
+    }
+
+    this.currentTime = targetTime;
+  }
+
+  /**
+   * Advances the virtual time until no timers are pending.
+   */
+  runAll(): void {
+    let timer = this.takeNextTimer(Infinity);
+
+    while (timer) {
+      this.currentTime = Math.max(this.currentTime, timer.dueTime);
+      timer.callback();
+      timer = this.takeNextTimer(Infinity);
+    }
+  }
+
+  /**
+   * Returns the number of timers waiting to run.
+   * @returns Pending timer count
+   */
+  getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Removes and returns the earliest timer due at or before the given time.
+   * Timers due at the same time run in the order they were scheduled.
+   * @param maxTime Latest due time to consider
+   * @returns The next timer, or undefined if none is due
+   */
+  private takeNextTimer(maxTime: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+
+    for (const timer of this.timers) {
+      if (timer.dueTime <= maxTime && (!next || timer.dueTime < next.dueTime)) {
+        next = timer;
+      }
+    }
+
+    if (next) {
+      this.timers = this.timers.filter(timer => timer !== next);
+    }
+
+    return next;
+  }
+}
@@ -4,4 +4,7 @@
 export { KeyboardHistory } from './KeyboardHistory';
 export { EventCapture } from './EventCapture';
 export { EventReplay } from './EventReplay';
-export type { KeyEvent, RecordingSession, ReplaySession, KeyboardHistoryConfig } from './types';
\ No newline at end of file
+export { ReplayAbortError } from './ReplayAbortError';
+export { RealClock } from './RealClock';
+export { VirtualClock } from './VirtualClock';
+export type { Clock, TimerHandle, KeyEvent, KeyModifiers, KeyLocation, CompositionRecord, CompositionUpdate, PendingKeyEvent, KeyStreamUpdate, KeyStreamListener, RecordingSession, ReplaySession, ReplayMode, ReplayTarget, CaptureTarget, PauseMode, KeyFilter, RedactionMode, ElementDescriptor, ElementContextMode, ChordRecord, ClipboardAction, ClipboardContentMode, ClipboardRecord, ReplayOptions, ReplayProgressDetail, ReplaySeekDetail, KeyboardHistoryConfig } from './types';
\ No newline at end of file
@@ -6,6 +6,103 @@ export interface KeyEvent {
   duration: number;      // Time held in milliseconds
   timestamp: number;     // Time in milliseconds relative to session start (0-based) when key was initially pressed
   code: string;          // Physical key code (e.g., 'KeyA', 'Enter')
+  modifiers?: KeyModifiers; // Modifier and lock state when the key was pressed (absent in data recorded before it was captured)
+  location?: KeyLocation;   // Which physical variant of the key was pressed (absent in data recorded before it was captured)
+  compositionId?: number;   // Id of the IME composition this keystroke belongs to, if any
+  interrupted?: boolean;    // True if the keyup never arrived (window blur or hidden page); duration is truncated
+  repeatCount?: number;     // Auto-repeat keydowns while the key was held (only with captureRepeats)
+  redacted?: boolean;       // Typed into a sensitive field; key and code are 'Redacted'
+  element?: ElementDescriptor; // Element the key was typed into (only with elementContext)
+  frames?: ElementDescriptor[]; // Iframes the key was typed in, outermost first (only with captureFrames)
+  isTrusted?: boolean;      // False if the keydown was dispatched by a script (only with recordTrusted)
+  heldKeys?: string[];      // Other keys already held when this key went down, in press order
+}
+
+export interface PendingKeyEvent {
+  id: number;            // Links the pending event to its completion in the key stream
+  key: string;           // Key identifier (e.g., 'a', 'Enter', 'Shift')
+  code: string;          // Physical key code (e.g., 'KeyA', 'Enter')
+  timestamp: number;     // Time in milliseconds relative to session start when the key was pressed
+  modifiers: KeyModifiers; // Modifier and lock state when the key was pressed
+  location: KeyLocation;   // Which physical variant of the key was pressed
+  compositionId?: number;  // Id of the IME composition this keystroke belongs to, if any
+  element?: ElementDescriptor; // Element the key was typed into (only with elementContext)
+  frames?: ElementDescriptor[]; // Iframes the key was typed in, outermost first (only with captureFrames)
+  isTrusted?: boolean;     // False if the keydown was dispatched by a script (only with recordTrusted)
+  heldKeys?: string[];     // Other keys already held when this key went down, in press order
+}
+
+// Streamed while recording: 'pending' at key-down, 'complete' with the finished KeyEvent at key-up
+export type KeyStreamUpdate =
+  | { type: 'pending'; event: PendingKeyEvent }
+  | { type: 'complete'; id: number; event: KeyEvent };
+
+export type KeyStreamListener = (update: KeyStreamUpdate) => void;
+
+export interface CompositionRecord {
+  id: number;                  // Session-unique id, referenced by KeyEvent.compositionId
+  text: string;                // Text committed when the composition ended
+  timestamp: number;           // Time in milliseconds relative to session start when the composition started
+  duration: number;            // Time from compositionstart to compositionend in milliseconds
+  updates: CompositionUpdate[]; // Intermediate candidate text in the order it was shown
+  redacted?: boolean;          // Composed in a sensitive field; text and updates are 'Redacted'
+}
+
+export interface CompositionUpdate {
+  data: string;          // Candidate text reported by compositionupdate
+  timestamp: number;     // Time in milliseconds relative to session start
+}
+
+// A stretch of time during which two or more keys were held at once (a chord or typing rollover)
+export interface ChordRecord {
+  keys: string[];        // Every key held during the overlap, in press order
+  codes: string[];       // Physical key codes matching keys
+  timestamp: number;     // Time in milliseconds relative to session start when a second key went down
+  duration: number;      // Time in milliseconds until fewer than two keys were held
+  peak: number;          // Most keys held at the same time
+}
+
+// Clipboard action recorded alongside keystrokes
+export type ClipboardAction = 'paste' | 'cut' | 'copy';
+
+// How much of the clipboard text is kept: its length only, a hash of it, or the text itself
+export type ClipboardContentMode = 'length' | 'hash' | 'text';
+
+export interface ClipboardRecord {
+  action: ClipboardAction; // Which clipboard event fired
+  timestamp: number;     // Time in milliseconds relative to session start
+  length: number;        // Length of the plain-text payload in UTF-16 code units
+  hash?: string;         // FNV-1a hash of the payload as 8 hex digits ('hash' mode)
+  text?: string;         // The payload itself ('text' mode)
+  redacted?: boolean;    // Happened in a sensitive field; only the length is kept
+  element?: ElementDescriptor; // Element the action happened in (only with elementContext)
+  frames?: ElementDescriptor[]; // Iframes the action happened in, outermost first (only with captureFrames)
+  isTrusted?: boolean;   // False if the event was dispatched by a script (only with recordTrusted)
+}
+
+// KeyboardEvent.location as a name: left/right for Shift, Ctrl, Alt and Meta, numpad for keypad keys
+export type KeyLocation = 'standard' | 'left' | 'right' | 'numpad';
+
+// Stable description of the element that had focus when a key was pressed
+export interface ElementDescriptor {
+  tag: string;           // Lowercase tag name (e.g., 'input')
+  id?: string;           // id attribute, if set
+  name?: string;         // name attribute, if set
+  attribute?: string;    // Value of the configured elementAttribute, if set
+  path?: string;         // CSS selector from the document or shadow root ('path' mode only)
+  host?: ElementDescriptor; // Shadow host, if the element is inside a shadow root
+}
+
+// How much of the focused element is recorded with each keystroke
+export type ElementContextMode = 'none' | 'basic' | 'path';
+
+export interface KeyModifiers {
+  ctrlKey: boolean;      // Control was held
+  shiftKey: boolean;     // Shift was held
+  altKey: boolean;       // Alt (Option) was held
+  metaKey: boolean;      // Meta (Command/Windows) was held
+  capsLock: boolean;     // Caps Lock was on
+  numLock: boolean;      // Num Lock was on
 }
 
 export interface RecordingSession {
@@ -14,16 +111,84 @@ export interface RecordingSession {
   events: KeyEvent[];
 }
 
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+export interface Clock {
+  now(): number;                                                  // Current time in milliseconds
+  setTimeout(callback: () => void, delay: number): TimerHandle;   // Runs callback after delay milliseconds
+  clearTimeout(handle: TimerHandle): void;                        // Cancels a pending callback
+}
+
 export interface ReplaySession {
   isReplaying: boolean;
-  currentIndex: number;
-  startTime: number | null;
-  timeoutIds: ReturnType<typeof setTimeout>[];
+  isPaused: boolean;            // True while a replay is paused (isReplaying stays true)
+  currentIndex: number;         // Index of the next event to be dispatched
+  startTime: number | null;     // Clock time of timeline position 0; shifted on resume, seek and rate changes
+  remainingDelay: number | null; // Milliseconds left before the event at currentIndex fires, set while paused
+  timeoutIds: TimerHandle[];
 }
 
+export interface ReplayOptions {
+  signal?: AbortSignal;         // Stops the replay and rejects the returned promise when aborted
+}
+
+export interface ReplayProgressDetail {
+  index: number;                // Number of events dispatched so far (index of the next event)
+  total: number;                // Total number of events in the replay
+  elapsed: number;              // Position in milliseconds on the session-relative timeline
+  remaining: number;            // Timeline milliseconds left until the last event
+  timingError?: number;         // Progress only: milliseconds the event was dispatched after its target time
+}
+
+export interface ReplaySeekDetail {
+  fromIndex: number;            // Index of the event that was due before seeking
+  toIndex: number;              // Index of the event that fires next after seeking
+  position: number;             // Playhead position in milliseconds on the session-relative timeline
+  skippedEvents: KeyEvent[];    // Events passed over without being dispatched (empty when seeking backwards)
+}
+
+// 'custom' dispatches one CustomEvent per KeyEvent; 'keyboard' dispatches KeyboardEvent keydown/keyup pairs;
+// 'type' also edits the text of the target input, textarea or contenteditable element
+export type ReplayMode = 'custom' | 'keyboard' | 'type';
+
+// Where replayed key events are dispatched: an element, a CSS selector, or a resolver called per event.
+// Events are skipped when the selector matches nothing or the resolver returns null
+export type ReplayTarget = EventTarget | string | ((event: KeyEvent) => EventTarget | null);
+
+// Subtree to record keystrokes from: an element, a CSS selector, a shadow root or the whole document
+export type CaptureTarget = Element | ShadowRoot | Document | string;
+
+// Decides at key-down whether a key press is recorded; return false to drop it
+export type KeyFilter = (event: PendingKeyEvent, domEvent: KeyboardEvent) => boolean;
+
+// Handling of keystrokes in sensitive fields: 'mask' keeps timing with 'Redacted' key and code,
+// 'drop' records nothing, 'off' records them like any other field
+export type RedactionMode = 'mask' | 'drop' | 'off';
+
+// How resuming a paused recording treats the paused interval: removed from timestamps or kept as a gap
+export type PauseMode = 'compress' | 'preserve';
+
 export interface KeyboardHistoryConfig {
   maxEvents?: number;           // Maximum events to store (default: 10000)
-  captureRepeats?: boolean;     // Capture key repeat events (default: true)
+  captureRepeats?: boolean;     // Count auto-repeat keydowns in KeyEvent.repeatCount (default: true)
   timestampPrecision?: number;  // Decimal places for session-relative timestamps (default: 3)
   replayEventName?: string;     // Custom event name for replay (default: 'keyboardHistoryReplay')
+  playbackRate?: number;        // Replay speed multiplier, e.g. 2 for double speed (default: 1)
+  replayMode?: ReplayMode;      // How replayed events are dispatched (default: 'custom')
+  replayTarget?: ReplayTarget;  // Where replayed key events are dispatched (default: document)
+  captureTarget?: CaptureTarget; // Subtree that keystrokes are recorded from (default: document)
+  pauseMode?: PauseMode;        // Timestamps after resume() skip or include the pause (default: 'compress')
+  filter?: KeyFilter;           // Predicate applied to each key press before it is recorded
+  includeKeys?: string[];       // Only record these KeyEvent.key values
+  excludeKeys?: string[];       // Never record these KeyEvent.key values
+  excludeCodes?: string[];      // Never record these KeyEvent.code values
+  redaction?: RedactionMode;    // What happens to keystrokes in password and other sensitive fields (default: 'off')
+  elementContext?: ElementContextMode; // Describe the focused element in KeyEvent.element (default: 'none')
+  elementAttribute?: string;    // data-* attribute whose value is recorded in ElementDescriptor.attribute
+  captureClipboard?: boolean;   // Record paste, cut and copy actions as ClipboardRecords (default: false)
+  clipboardContent?: ClipboardContentMode; // What is kept of the clipboard text (default: 'length')
+  captureFrames?: boolean;      // Also record keystrokes in same-origin iframes, including ones added later (default: false)
+  trustedOnly?: boolean;        // Ignore events dispatched by scripts (isTrusted false) (default: false)
+  recordTrusted?: boolean;      // Record each event's isTrusted flag (default: false)
+  clock?: Clock;                // Time source and timer scheduler for capture and replay (default: RealClock)
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { EventCapture } from '../src/EventCapture';
-import { KeyEvent } from '../src/types';
+import { VirtualClock } from '../src/VirtualClock';
+import { ChordRecord, ClipboardRecord, CompositionRecord, KeyEvent, KeyStreamUpdate, KeyboardHistoryConfig, PendingKeyEvent } from '../src/types';
 import * as fc from 'fast-check';
 
 // Mock DOM environment for testing
@@ -7,6 +8,9 @@ const mockPerformanceNow = jest.fn();
 const mockAddEventListener = jest.fn();
 const mockRemoveEventListener = jest.fn();
 
+// Frame and shadow DOM tests need the real jsdom document, which is replaced by a mock below
+const realDocument = document;
+
 // Setup DOM mocks
 Object.defineProperty(global, 'performance', {
   value: { now: mockPerformanceNow },
@@ -35,6 +39,24 @@ describe('EventCapture', () => {
     eventCapture = new EventCapture();
   });
 
+  // Listener the capture registered on the mocked document for an event type
+  const handler = (type: string) => mockAddEventListener.mock.calls.find(call => call[0] === type)?.[1];
+  // Listener the capture registered on the window, which is mocked in test/setup.ts
+  const windowHandler = (type: string) => (window.addEventListener as jest.Mock).mock.calls.find(call => call[0] === type)?.[1];
+
+  interface CaptureRecorders {
+    onComposition?: (composition: CompositionRecord) => void;
+    onClipboard?: (record: ClipboardRecord) => void;
+    onChord?: (chord: ChordRecord) => void;
+  }
+
+  // Creates a capture driven by a virtual clock and starts a session at the clock's current time
+  const startClockCapture = (clock: VirtualClock, config: KeyboardHistoryConfig = {}, recorders: CaptureRecorders = {}): EventCapture => {
+    const capture = new EventCapture({ clock, ...config });
+    capture.startCapture(onEventCallback, clock.now(), recorders.onComposition, recorders.onClipboard, recorders.onChord);
+    return capture;
+  };
+
   describe('Property-Based Tests', () => {
     /**
      * **Feature: keyboard-history, Property 3: Event capture completeness**
@@ -207,18 +229,18 @@ describe('EventCapture', () => {
       
       eventCapture.startCapture(onEventCallback, 1000);
       expect(eventCapture.isCurrentlyCapturing()).toBe(true);
-      expect(mockAddEventListener).toHaveBeenCalledTimes(2);
+      expect(mockAddEventListener).toHaveBeenCalledTimes(6);
       
       eventCapture.stopCapture();
       expect(eventCapture.isCurrentlyCapturing()).toBe(false);
-      expect(mockRemoveEventListener).toHaveBeenCalledTimes(2);
+      expect(mockRemoveEventListener).toHaveBeenCalledTimes(6);
     });
 
     test('should handle multiple start calls gracefully', () => {
       eventCapture.startCapture(onEventCallback, 1000);
       eventCapture.startCapture(onEventCallback, 1000);
       
-      expect(mockAddEventListener).toHaveBeenCalledTimes(2); // Should only register once
+      expect(mockAddEventListener).toHaveBeenCalledTimes(6); // Should only register once
     });
 
     test('should handle stop without start gracefully', () => {
@@ -414,6 +436,1042 @@ describe('EventCapture', () => {
     });
   });
 
+  describe('Modifier State', () => {
+    const getHandlers = () => ({
+      keydown: handler('keydown'),
+      keyup: handler('keyup')
+    });
+
+    test('should record modifier and lock state at key-down time', () => {
+      mockPerformanceNow.mockReturnValue(1000);
+      eventCapture.startCapture(onEventCallback, 1000);
+      const { keydown, keyup } = getHandlers();
+
+      keydown({
+        key: 'c',
+        code: 'KeyC',
+        repeat: false,
+        ctrlKey: true,
+        shiftKey: false,
+        altKey: false,
+        metaKey: false,
+        getModifierState: (keyArg: string) => keyArg === 'NumLock'
+      });
+      // Control released before the key: the key-down state is what counts
+      keyup({ key: 'c', code: 'KeyC', repeat: false, ctrlKey: false });
+      eventCapture.stopCapture();
+
+      expect(capturedEvents[0].modifiers).toEqual({
+        ctrlKey: true,
+        shiftKey: false,
+        altKey: false,
+        metaKey: false,
+        capsLock: false,
+        numLock: true
+      });
+    });
+
+    test('should distinguish a shortcut from the plain key', () => {
+      mockPerformanceNow.mockReturnValue(1000);
+      eventCapture.startCapture(onEventCallback, 1000);
+      const { keydown, keyup } = getHandlers();
+
+      keydown({ key: 'c', code: 'KeyC', repeat: false, metaKey: true });
+      keyup({ key: 'c', code: 'KeyC', repeat: false });
+      keydown({ key: 'c', code: 'KeyC', repeat: false });
+      keyup({ key: 'c', code: 'KeyC', repeat: false });
+      eventCapture.stopCapture();
+
+      expect(capturedEvents.map(event => event.modifiers!.metaKey)).toEqual([true, false]);
+      expect(capturedEvents[1].modifiers!.capsLock).toBe(false);
+    });
+  });
+
+  describe('Key Location', () => {
+    test('should record left, right and numpad key locations', () => {
+      mockPerformanceNow.mockReturnValue(1000);
+      eventCapture.startCapture(onEventCallback, 1000);
+      const keydown = handler('keydown');
+      const keyup = handler('keyup');
+
+      const keys = [
+        { key: 'Shift', code: 'ShiftLeft', location: 1 },
+        { key: 'Shift', code: 'ShiftRight', location: 2 },
+        { key: '1', code: 'Numpad1', location: 3 },
+        { key: '1', code: 'Digit1', location: 0 }
+      ];
+      keys.forEach(key => {
+        keydown({ ...key, repeat: false });
+        keyup({ ...key, repeat: false });
+      });
+      eventCapture.stopCapture();
+
+      expect(capturedEvents.map(event => event.location)).toEqual(['left', 'right', 'numpad', 'standard']);
+    });
+
+    test('should default to the standard location when it is not reported', () => {
+      mockPerformanceNow.mockReturnValue(1000);
+      eventCapture.startCapture(onEventCallback, 1000);
+      const keydown = handler('keydown');
+      const keyup = handler('keyup');
+
+      keydown({ key: 'a', code: 'KeyA', repeat: false });
+      keyup({ key: 'a', code: 'KeyA', repeat: false });
+      eventCapture.stopCapture();
+
+      expect(capturedEvents[0].location).toBe('standard');
+    });
+  });
+
+  describe('IME Composition', () => {
+    let clock: VirtualClock;
+    let imeCapture: EventCapture;
+    let compositions: CompositionRecord[];
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+      compositions = [];
+      imeCapture = startClockCapture(clock, {}, { onComposition: composition => compositions.push(composition) });
+    });
+
+    test('should record a composition with its text, timing and updates', () => {
+      clock.advance(100);
+      handler('keydown')({ key: 'Process', code: 'KeyN', repeat: false });
+      handler('compositionstart')({ data: '' });
+      handler('compositionupdate')({ data: 'n' });
+      clock.advance(50);
+      handler('keyup')({ key: 'Process', code: 'KeyN', repeat: false });
+      handler('keydown')({ key: 'Process', code: 'KeyI', repeat: false });
+      handler('compositionupdate')({ data: 'に' });
+      clock.advance(50);
+      handler('keyup')({ key: 'Process', code: 'KeyI', repeat: false });
+      clock.advance(100);
+      handler('keydown')({ key: 'Process', code: 'Space', repeat: false });
+      handler('compositionupdate')({ data: '二' });
+      clock.advance(40);
+      handler('keyup')({ key: 'Process', code: 'Space', repeat: false });
+      handler('keydown')({ key: 'Process', code: 'Enter', repeat: false });
+      handler('compositionend')({ data: '二' });
+      clock.advance(30);
+      handler('keyup')({ key: 'Process', code: 'Enter', repeat: false });
+
+      expect(compositions).toEqual([{
+        id: 1,
+        text: '二',
+        timestamp: 100,
+        duration: 240,
+        updates: [
+          { data: 'n', timestamp: 100 },
+          { data: 'に', timestamp: 150 },
+          { data: '二', timestamp: 300 }
+        ]
+      }]);
+    });
+
+    test('should link the keystrokes that produced a composition', () => {
+      handler('keydown')({ key: 'Process', code: 'KeyK', repeat: false });
+      handler('compositionstart')({ data: '' });
+      handler('keyup')({ key: 'Process', code: 'KeyK', repeat: false });
+      handler('keydown')({ key: 'Process', code: 'Enter', repeat: false });
+      handler('compositionend')({ data: 'か' });
+      handler('keyup')({ key: 'Process', code: 'Enter', repeat: false });
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(capturedEvents.map(event => event.compositionId)).toEqual([1, 1, undefined]);
+    });
+
+    test('should number compositions within a session', () => {
+      handler('compositionstart')({ data: '' });
+      handler('compositionend')({ data: '一' });
+      handler('compositionstart')({ data: '' });
+      handler('compositionend')({ data: '二' });
+
+      expect(compositions.map(composition => [composition.id, composition.text])).toEqual([[1, '一'], [2, '二']]);
+    });
+
+    test('should keep an unfinished composition with its latest text when capture stops', () => {
+      handler('compositionstart')({ data: '' });
+      handler('compositionupdate')({ data: 'にほ' });
+      clock.advance(80);
+
+      imeCapture.stopCapture();
+
+      expect(compositions).toHaveLength(1);
+      expect(compositions[0].text).toBe('にほ');
+      expect(compositions[0].duration).toBe(80);
+    });
+
+    test('should ignore a composition that started before capture', () => {
+      handler('compositionupdate')({ data: 'x' });
+      handler('compositionend')({ data: 'x' });
+
+      expect(compositions).toHaveLength(0);
+    });
+  });
+
+  describe('Stuck Key Recovery', () => {
+    let clock: VirtualClock;
+    let recoveringCapture: EventCapture;
+
+    beforeEach(() => {
+      clock = new VirtualClock(0);
+      recoveringCapture = startClockCapture(clock);
+    });
+
+    afterEach(() => {
+      recoveringCapture.stopCapture();
+    });
+
+    test('should record held keys as interrupted when the window loses focus', () => {
+      clock.advance(100);
+      handler('keydown')({ key: 'Alt', code: 'AltLeft', repeat: false, altKey: true });
+      clock.advance(20);
+      handler('keydown')({ key: 'Tab', code: 'Tab', repeat: false, altKey: true });
+      clock.advance(30);
+
+      windowHandler('blur')();
+
+      expect(capturedEvents).toMatchObject([
+        { key: 'Alt', code: 'AltLeft', timestamp: 100, duration: 50, interrupted: true },
+        { key: 'Tab', code: 'Tab', timestamp: 120, duration: 30, interrupted: true }
+      ]);
+    });
+
+    test('should complete a key whose value changes case between keydown and keyup', () => {
+      const updates: KeyStreamUpdate[] = [];
+      recoveringCapture.setStreamListener(update => updates.push(update));
+
+      clock.advance(100);
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(40);
+      handler('keyup')({ key: 'A', code: 'KeyA', repeat: false, shiftKey: true });
+      windowHandler('blur')();
+
+      expect(capturedEvents).toHaveLength(1);
+      expect(capturedEvents[0]).toMatchObject({ key: 'a', code: 'KeyA', timestamp: 100, duration: 40 });
+      expect(capturedEvents[0].interrupted).toBeUndefined();
+      expect(updates.map(update => update.type)).toEqual(['pending', 'complete']);
+      expect(recoveringCapture.getPendingKeys()).toEqual([]);
+    });
+
+    test('should ignore the late keyup of an interrupted key', () => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      windowHandler('blur')();
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(capturedEvents).toHaveLength(1);
+    });
+
+    test('should record held keys as interrupted when the page becomes hidden', () => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(40);
+
+      (document as any).visibilityState = 'visible';
+      handler('visibilitychange')();
+      expect(capturedEvents).toHaveLength(0);
+
+      (document as any).visibilityState = 'hidden';
+      handler('visibilitychange')();
+      delete (document as any).visibilityState;
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', duration: 40, interrupted: true }]);
+    });
+
+    test('should not mark normally released keys as interrupted', () => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(capturedEvents[0]).not.toHaveProperty('interrupted');
+    });
+
+    test('should stop listening for focus loss when capture stops', () => {
+      recoveringCapture.stopCapture();
+
+      expect(mockRemoveEventListener).toHaveBeenCalledWith('visibilitychange', handler('visibilitychange'));
+      expect(window.removeEventListener).toHaveBeenCalledWith('blur', windowHandler('blur'));
+    });
+  });
+
+  describe('Key Streaming', () => {
+    let clock: VirtualClock;
+    let streamingCapture: EventCapture;
+    let updates: KeyStreamUpdate[];
+
+    beforeEach(() => {
+      clock = new VirtualClock(0);
+      updates = [];
+      streamingCapture = startClockCapture(clock);
+      streamingCapture.setStreamListener(update => updates.push(update));
+    });
+
+    afterEach(() => {
+      streamingCapture.stopCapture();
+    });
+
+    test('should emit a pending event at key-down and complete it at key-up', () => {
+      clock.advance(100);
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(updates).toEqual([{
+        type: 'pending',
+        event: {
+          id: 1,
+          key: 'a',
+          code: 'KeyA',
+          timestamp: 100,
+          modifiers: { ctrlKey: false, shiftKey: false, altKey: false, metaKey: false, capsLock: false, numLock: false },
+          location: 'standard'
+        }
+      }]);
+      expect(capturedEvents).toHaveLength(0);
+
+      clock.advance(75);
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(updates[1]).toEqual({ type: 'complete', id: 1, event: capturedEvents[0] });
+      expect(capturedEvents[0].duration).toBe(75);
+    });
+
+    test('should report keys that are currently held', () => {
+      handler('keydown')({ key: 'Shift', code: 'ShiftLeft', repeat: false });
+      handler('keydown')({ key: 'A', code: 'KeyA', repeat: false });
+      expect(streamingCapture.getPendingKeys().map(event => [event.id, event.key])).toEqual([[1, 'Shift'], [2, 'A']]);
+
+      handler('keyup')({ key: 'Shift', code: 'ShiftLeft', repeat: false });
+      expect(streamingCapture.getPendingKeys().map(event => event.key)).toEqual(['A']);
+    });
+
+    test('should not emit a new pending event for key repeats', () => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: true });
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(updates.map(update => update.type)).toEqual(['pending', 'complete']);
+      expect(updates[1]).toMatchObject({ id: 1 });
+    });
+
+    test('should complete interrupted keys on focus loss', () => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      windowHandler('blur')();
+
+      expect(updates[1]).toMatchObject({ type: 'complete', id: 1, event: { interrupted: true } });
+    });
+
+    test('should stop streaming when the listener is removed', () => {
+      streamingCapture.setStreamListener(undefined);
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe('Pause and Resume', () => {
+    let clock: VirtualClock;
+    let pausingCapture: EventCapture;
+
+    beforeEach(() => {
+      clock = new VirtualClock(0);
+      pausingCapture = startClockCapture(clock);
+    });
+
+    afterEach(() => {
+      pausingCapture.stopCapture();
+    });
+
+    test('should detach listeners while paused and reattach them on resume', () => {
+      pausingCapture.pauseCapture();
+
+      expect(pausingCapture.isCapturePaused()).toBe(true);
+      expect(pausingCapture.isCurrentlyCapturing()).toBe(false);
+      expect(mockRemoveEventListener).toHaveBeenCalledWith('keydown', handler('keydown'), true);
+
+      mockAddEventListener.mockClear();
+      pausingCapture.resumeCapture(0);
+
+      expect(pausingCapture.isCapturePaused()).toBe(false);
+      expect(pausingCapture.isCurrentlyCapturing()).toBe(true);
+      expect(mockAddEventListener).toHaveBeenCalledWith('keydown', expect.any(Function), true);
+    });
+
+    test('should record held keys as interrupted when pausing', () => {
+      clock.advance(100);
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(40);
+
+      pausingCapture.pauseCapture();
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', timestamp: 100, duration: 40, interrupted: true }]);
+    });
+
+    test('should measure timestamps from the start time passed to resumeCapture', () => {
+      pausingCapture.pauseCapture();
+      clock.advance(5000);
+      pausingCapture.resumeCapture(4000);
+
+      clock.advance(100);
+      handler('keydown')({ key: 'b', code: 'KeyB', repeat: false });
+      handler('keyup')({ key: 'b', code: 'KeyB', repeat: false });
+
+      expect(capturedEvents[0].timestamp).toBe(1100);
+    });
+
+    test('should keep numbering compositions across a pause', () => {
+      const compositions: CompositionRecord[] = [];
+      pausingCapture.stopCapture();
+      pausingCapture.startCapture(onEventCallback, 0, composition => compositions.push(composition));
+
+      handler('compositionstart')({ data: '' });
+      pausingCapture.pauseCapture();
+      pausingCapture.resumeCapture(0);
+      handler('compositionstart')({ data: '' });
+      handler('compositionend')({ data: '二' });
+
+      expect(compositions.map(composition => composition.id)).toEqual([1, 2]);
+    });
+
+    test('should stop cleanly while paused', () => {
+      pausingCapture.pauseCapture();
+      mockRemoveEventListener.mockClear();
+
+      pausingCapture.stopCapture();
+
+      expect(pausingCapture.isCapturePaused()).toBe(false);
+      expect(mockRemoveEventListener).not.toHaveBeenCalled();
+      pausingCapture.resumeCapture(0);
+      expect(pausingCapture.isCurrentlyCapturing()).toBe(false);
+    });
+  });
+
+  describe('Event Filtering', () => {
+    const typeKeys = (capture: EventCapture, keys: { key: string; code: string }[]) => {
+      mockPerformanceNow.mockReturnValue(1000);
+      capture.startCapture(onEventCallback, 0);
+      const keydown = handler('keydown');
+      const keyup = handler('keyup');
+      keys.forEach(key => {
+        keydown({ ...key, repeat: false });
+        keydown({ ...key, repeat: true });
+        keyup({ ...key, repeat: false });
+      });
+      capture.stopCapture();
+    };
+    const keys = [
+      { key: 'a', code: 'KeyA' },
+      { key: 'F5', code: 'F5' },
+      { key: 'ArrowUp', code: 'ArrowUp' },
+      { key: 'MediaPlayPause', code: 'MediaPlayPause' },
+      { key: '1', code: 'Numpad1' }
+    ];
+
+    test('should only record keys in includeKeys', () => {
+      typeKeys(new EventCapture({ includeKeys: ['a', 'F5'] }), keys);
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['a', 'F5']);
+    });
+
+    test('should drop keys in excludeKeys and codes in excludeCodes', () => {
+      typeKeys(new EventCapture({ excludeKeys: ['F5', 'ArrowUp'], excludeCodes: ['MediaPlayPause', 'Numpad1'] }), keys);
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['a']);
+      expect(capturedEvents[0].repeatCount).toBe(1);
+    });
+
+    test('should pass the key press and DOM event to the filter predicate', () => {
+      const filter = jest.fn((event: PendingKeyEvent, domEvent: KeyboardEvent) =>
+        event.location === 'standard' && !domEvent.key.startsWith('Arrow'));
+      const capture = new EventCapture({ filter });
+
+      typeKeys(capture, [...keys.slice(0, 3), { key: 'Shift', code: 'ShiftLeft', location: 1 } as any]);
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['a', 'F5']);
+      expect(filter).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'a', code: 'KeyA', timestamp: 1000 }),
+        expect.objectContaining({ key: 'a', repeat: false })
+      );
+    });
+
+    test('should not stream pending events for filtered keys', () => {
+      const capture = new EventCapture({ excludeKeys: ['F5'] });
+      const updates: KeyStreamUpdate[] = [];
+      capture.setStreamListener(update => updates.push(update));
+
+      typeKeys(capture, keys.slice(0, 2));
+
+      expect(updates.map(update => update.type === 'pending' ? update.event.id : update.id)).toEqual([1, 1]);
+    });
+  });
+
+  describe('Redaction', () => {
+    let clock: VirtualClock;
+    let compositions: CompositionRecord[];
+    // The global document is mocked in this file, so build real elements through DOMParser
+    const fields = new DOMParser().parseFromString(`
+      <input id="password" type="password">
+      <input id="card" autocomplete="billing cc-number">
+      <div data-kh-redact><input id="secret"></div>
+      <input id="name" autocomplete="name">
+    `, 'text/html');
+    const field = (id: string) => fields.getElementById(id)!;
+    const typeInto = (target: Element, key: string, code: string, extra: object = {}) => {
+      handler('keydown')({ key, code, repeat: false, location: 0, target, ...extra });
+      clock.advance(40);
+      handler('keyup')({ key, code, repeat: false, target });
+      clock.advance(60);
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+      compositions = [];
+    });
+
+    const start = (config: KeyboardHistoryConfig) =>
+      startClockCapture(clock, config, { onComposition: composition => compositions.push(composition) });
+
+    test('should mask keys typed into password, payment and data-kh-redact fields', () => {
+      start({ redaction: 'mask' });
+
+      typeInto(field('password'), 'P', 'KeyP', { shiftKey: true });
+      typeInto(field('card'), '4', 'Numpad4', { location: 3 });
+      typeInto(field('secret'), 's', 'KeyS');
+      typeInto(field('name'), 'n', 'KeyN');
+
+      expect(capturedEvents.map(event => [event.key, event.code, event.timestamp, event.duration])).toEqual([
+        ['Redacted', 'Redacted', 0, 40],
+        ['Redacted', 'Redacted', 100, 40],
+        ['Redacted', 'Redacted', 200, 40],
+        ['n', 'KeyN', 300, 40]
+      ]);
+      expect(capturedEvents[0]).toMatchObject({ redacted: true, location: 'standard' });
+      expect(capturedEvents[0].modifiers!.shiftKey).toBe(false);
+      expect(capturedEvents[1].location).toBe('standard');
+      expect(capturedEvents[3].redacted).toBeUndefined();
+    });
+
+    test('should stream masked keys to subscribers', () => {
+      const capture = start({ redaction: 'mask' });
+      const updates: KeyStreamUpdate[] = [];
+      capture.setStreamListener(update => updates.push(update));
+
+      handler('keydown')({ key: 'x', code: 'KeyX', repeat: false, target: field('password') });
+
+      expect(updates[0]).toMatchObject({ type: 'pending', event: { key: 'Redacted', code: 'Redacted' } });
+      expect(capture.getPendingKeys()[0].key).toBe('Redacted');
+    });
+
+    test('should record nothing from sensitive fields in drop mode', () => {
+      const filter = jest.fn(() => true);
+      start({ redaction: 'drop', filter });
+
+      typeInto(field('password'), 'p', 'KeyP');
+      typeInto(field('name'), 'n', 'KeyN');
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['n']);
+      expect(filter).toHaveBeenCalledTimes(1);
+    });
+
+    test('should record sensitive fields normally by default', () => {
+      start({});
+
+      typeInto(field('password'), 'p', 'KeyP');
+      typeInto(field('card'), '4', 'Digit4');
+
+      expect(capturedEvents).toMatchObject([{ key: 'p', code: 'KeyP' }, { key: '4', code: 'Digit4' }]);
+      expect(capturedEvents[0].redacted).toBeUndefined();
+    });
+
+    test('should mask the text of compositions in sensitive fields', () => {
+      start({ redaction: 'mask' });
+      const target = field('secret');
+
+      handler('compositionstart')({ data: '', target });
+      handler('compositionupdate')({ data: 'に', target });
+      clock.advance(50);
+      handler('compositionend')({ data: '二', target });
+
+      expect(compositions).toEqual([{
+        id: 1,
+        text: 'Redacted',
+        timestamp: 0,
+        duration: 50,
+        updates: [{ data: 'Redacted', timestamp: 0 }],
+        redacted: true
+      }]);
+    });
+
+    test('should drop compositions in sensitive fields in drop mode', () => {
+      start({ redaction: 'drop' });
+      const target = field('secret');
+
+      handler('compositionstart')({ data: '', target });
+      handler('compositionupdate')({ data: 'に', target });
+      handler('compositionend')({ data: '二', target });
+
+      expect(compositions).toEqual([]);
+    });
+  });
+
+  describe('Element Context', () => {
+    // The global document is mocked in this file, so build real elements through DOMParser
+    const page = new DOMParser().parseFromString(`
+      <form id="signup">
+        <input name="email" data-field="contact">
+        <div><input name="first"><input name="last"></div>
+      </form>
+      <section><p><textarea></textarea></p></section>
+    `, 'text/html');
+    const press = (target: Element) => {
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false, target });
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false, target });
+    };
+
+    beforeEach(() => {
+      mockPerformanceNow.mockReturnValue(1000);
+    });
+
+    test('should not describe the element by default', () => {
+      new EventCapture().startCapture(onEventCallback, 0);
+
+      press(page.querySelector('[name="email"]')!);
+
+      expect(capturedEvents[0].element).toBeUndefined();
+    });
+
+    test('should record tag, id, name and the configured attribute in basic mode', () => {
+      new EventCapture({ elementContext: 'basic', elementAttribute: 'data-field' }).startCapture(onEventCallback, 0);
+
+      press(page.querySelector('[name="email"]')!);
+      press(page.getElementById('signup')!);
+
+      expect(capturedEvents[0].element).toEqual({ tag: 'input', name: 'email', attribute: 'contact' });
+      expect(capturedEvents[1].element).toEqual({ tag: 'form', id: 'signup' });
+    });
+
+    test('should record a CSS path that selects the element in path mode', () => {
+      new EventCapture({ elementContext: 'path' }).startCapture(onEventCallback, 0);
+      const last = page.querySelector('[name="last"]')!;
+      const textarea = page.querySelector('textarea')!;
+
+      press(last);
+      press(textarea);
+
+      expect(capturedEvents[0].element!.path).toBe('#signup > div > input:nth-of-type(2)');
+      expect(capturedEvents[1].element!.path).toBe('html > body > section > p > textarea');
+      expect(page.querySelector(capturedEvents[0].element!.path!)).toBe(last);
+      expect(page.querySelector(capturedEvents[1].element!.path!)).toBe(textarea);
+    });
+
+    test('should include the element in pending stream updates', () => {
+      const capture = new EventCapture({ elementContext: 'basic' });
+      const updates: KeyStreamUpdate[] = [];
+      capture.setStreamListener(update => updates.push(update));
+      capture.startCapture(onEventCallback, 0);
+
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false, target: page.querySelector('textarea') });
+
+      expect(updates[0]).toMatchObject({ type: 'pending', event: { element: { tag: 'textarea' } } });
+    });
+
+    test('should skip the element for keys not fired on an element', () => {
+      new EventCapture({ elementContext: 'path' }).startCapture(onEventCallback, 0);
+
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(capturedEvents[0].element).toBeUndefined();
+    });
+  });
+
+  describe('Clipboard Actions', () => {
+    let clock: VirtualClock;
+    let records: ClipboardRecord[];
+    // The global document is mocked in this file, so build real elements through DOMParser
+    const page = new DOMParser().parseFromString(`
+      <textarea id="essay">The quick brown fox</textarea>
+      <input id="pin" autocomplete="one-time-code">
+    `, 'text/html');
+    const paste = (text: string, target?: Element) => {
+      handler('paste')({ type: 'paste', clipboardData: { getData: (format: string) => format === 'text/plain' ? text : '' }, target });
+    };
+    const start = (config: KeyboardHistoryConfig) => {
+      startClockCapture(clock, config, { onClipboard: record => records.push(record) });
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+      records = [];
+    });
+
+    test('should not listen for clipboard events by default', () => {
+      start({});
+
+      expect(handler('paste')).toBeUndefined();
+      expect(handler('copy')).toBeUndefined();
+    });
+
+    test('should record the payload length with a session-relative timestamp', () => {
+      start({ captureClipboard: true });
+
+      clock.advance(250);
+      paste('Hello, world');
+
+      expect(records).toEqual([{ action: 'paste', timestamp: 250, length: 12 }]);
+      expect(capturedEvents).toEqual([]);
+    });
+
+    test('should record a hash or the text when configured', () => {
+      start({ captureClipboard: true, clipboardContent: 'hash' });
+      paste('Hello, world');
+      paste('Hello, world');
+      paste('Hello, World');
+
+      expect(records[0].hash).toMatch(/^[0-9a-f]{8}$/);
+      expect(records[1].hash).toBe(records[0].hash);
+      expect(records[2].hash).not.toBe(records[0].hash);
+      expect(records[0].text).toBeUndefined();
+
+      jest.clearAllMocks();
+      records = [];
+      start({ captureClipboard: true, clipboardContent: 'text' });
+      paste('Hello, world');
+
+      expect(records[0]).toEqual({ action: 'paste', timestamp: 0, length: 12, text: 'Hello, world' });
+    });
+
+    test('should record the selected text for cut and copy', () => {
+      start({ captureClipboard: true, clipboardContent: 'text', elementContext: 'basic' });
+      const essay = page.getElementById('essay') as HTMLTextAreaElement;
+      essay.setSelectionRange(4, 9);
+
+      handler('copy')({ type: 'copy', target: essay });
+      handler('cut')({ type: 'cut', target: essay });
+
+      expect(records).toEqual([
+        { action: 'copy', timestamp: 0, length: 5, text: 'quick', element: { tag: 'textarea', id: 'essay' } },
+        { action: 'cut', timestamp: 0, length: 5, text: 'quick', element: { tag: 'textarea', id: 'essay' } }
+      ]);
+    });
+
+    test('should keep only the length of pastes into sensitive fields', () => {
+      start({ captureClipboard: true, clipboardContent: 'text', redaction: 'mask' });
+      paste('123456', page.getElementById('pin')!);
+
+      expect(records).toEqual([{ action: 'paste', timestamp: 0, length: 6, redacted: true }]);
+
+      jest.clearAllMocks();
+      records = [];
+      start({ captureClipboard: true, redaction: 'drop' });
+      paste('123456', page.getElementById('pin')!);
+
+      expect(records).toEqual([]);
+    });
+  });
+
+  describe('Frames and Shadow Roots', () => {
+    let clock: VirtualClock;
+    let container: HTMLElement;
+    let capture: EventCapture;
+
+    const addFrame = (parent: Element, id: string): Document => {
+      const iframe = parent.ownerDocument.createElement('iframe');
+      iframe.id = id;
+      parent.appendChild(iframe);
+      return iframe.contentDocument!;
+    };
+    const typeIn = (target: Element, key: string, code: string) => {
+      const view = target.ownerDocument.defaultView!;
+      target.dispatchEvent(new view.KeyboardEvent('keydown', { key, code, bubbles: true, composed: true }));
+      clock.advance(50);
+      target.dispatchEvent(new view.KeyboardEvent('keyup', { key, code, bubbles: true, composed: true }));
+    };
+    const input = (frameDocument: Document) => frameDocument.body.appendChild(frameDocument.createElement('input'));
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+      container = realDocument.createElement('div');
+      container.id = 'app';
+      realDocument.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      capture.stopCapture();
+      container.remove();
+    });
+
+    test('should record keys typed in existing same-origin iframes with the frame they came from', () => {
+      const editor = addFrame(container, 'editor');
+      capture = startClockCapture(clock, { captureTarget: container, captureFrames: true });
+
+      typeIn(input(editor), 'a', 'KeyA');
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', duration: 50, frames: [{ tag: 'iframe', id: 'editor', path: '#editor' }] }]);
+    });
+
+    test('should ignore iframes unless captureFrames is enabled', () => {
+      const editor = addFrame(container, 'editor');
+      capture = startClockCapture(clock, { captureTarget: container });
+
+      typeIn(input(editor), 'a', 'KeyA');
+
+      expect(capturedEvents).toEqual([]);
+    });
+
+    test('should attach to iframes added while capturing, including nested ones', async () => {
+      capture = startClockCapture(clock, { captureTarget: container, captureFrames: true });
+
+      const outer = addFrame(container, 'outer');
+      await Promise.resolve();
+      const inner = addFrame(outer.body, 'inner');
+      await Promise.resolve();
+
+      typeIn(input(inner), 'b', 'KeyB');
+
+      expect(capturedEvents).toHaveLength(1);
+      expect(capturedEvents[0].frames!.map(frame => frame.id)).toEqual(['outer', 'inner']);
+    });
+
+    test('should detach from frames when capture stops or the frame is removed', async () => {
+      const editor = addFrame(container, 'editor');
+      const field = input(editor);
+      capture = startClockCapture(clock, { captureTarget: container, captureFrames: true });
+
+      container.querySelector('iframe')!.remove();
+      await Promise.resolve();
+      typeIn(field, 'a', 'KeyA');
+
+      const other = addFrame(container, 'other');
+      await Promise.resolve();
+      const otherField = input(other);
+      capture.stopCapture();
+      typeIn(otherField, 'b', 'KeyB');
+
+      expect(capturedEvents).toEqual([]);
+    });
+
+    test('should record held keys as interrupted when the frame window loses focus', () => {
+      const editor = addFrame(container, 'editor');
+      capture = startClockCapture(clock, { captureTarget: container, captureFrames: true });
+
+      input(editor).dispatchEvent(new editor.defaultView!.KeyboardEvent('keydown', { key: 'Alt', code: 'AltLeft', bubbles: true }));
+      clock.advance(30);
+      editor.defaultView!.dispatchEvent(new editor.defaultView!.Event('blur'));
+
+      expect(capturedEvents).toMatchObject([{ key: 'Alt', duration: 30, interrupted: true }]);
+    });
+
+    test('should describe the real target inside an open shadow root', () => {
+      const widget = container.appendChild(realDocument.createElement('div'));
+      widget.id = 'widget';
+      const shadowRoot = widget.attachShadow({ mode: 'open' });
+      const field = shadowRoot.appendChild(realDocument.createElement('input'));
+      field.name = 'query';
+      capture = startClockCapture(clock, { captureTarget: container, elementContext: 'path' });
+
+      typeIn(field, 'q', 'KeyQ');
+
+      expect(capturedEvents[0].element).toEqual({
+        tag: 'input',
+        name: 'query',
+        path: 'input',
+        host: { tag: 'div', id: 'widget', path: '#widget' }
+      });
+      expect(capturedEvents[0].frames).toBeUndefined();
+    });
+  });
+
+  describe('Trusted Events', () => {
+    const press = (key: string, code: string, isTrusted: boolean) => {
+      handler('keydown')({ key, code, repeat: false, isTrusted });
+      handler('keyup')({ key, code, repeat: false, isTrusted });
+    };
+
+    beforeEach(() => {
+      mockPerformanceNow.mockReturnValue(1000);
+    });
+
+    test('should record untrusted events without marking them by default', () => {
+      new EventCapture().startCapture(onEventCallback, 0);
+
+      press('a', 'KeyA', true);
+      press('b', 'KeyB', false);
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['a', 'b']);
+      expect(capturedEvents[1].isTrusted).toBeUndefined();
+    });
+
+    test('should ignore untrusted events in trustedOnly mode', () => {
+      new EventCapture({ trustedOnly: true }).startCapture(onEventCallback, 0);
+
+      press('a', 'KeyA', true);
+      press('b', 'KeyB', false);
+
+      expect(capturedEvents.map(event => event.key)).toEqual(['a']);
+    });
+
+    test('should not let an untrusted keyup end a trusted key press', () => {
+      new EventCapture({ trustedOnly: true }).startCapture(onEventCallback, 0);
+
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false, isTrusted: true });
+      mockPerformanceNow.mockReturnValue(1050);
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false, isTrusted: false });
+      mockPerformanceNow.mockReturnValue(1200);
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false, isTrusted: true });
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', duration: 200 }]);
+    });
+
+    test('should not let an untrusted blur or visibilitychange interrupt a trusted key press', () => {
+      new EventCapture({ trustedOnly: true }).startCapture(onEventCallback, 0);
+
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false, isTrusted: true });
+      windowHandler('blur')({ isTrusted: false });
+      (document as any).visibilityState = 'hidden';
+      handler('visibilitychange')({ isTrusted: false });
+      expect(capturedEvents).toHaveLength(0);
+
+      mockPerformanceNow.mockReturnValue(1200);
+      handler('visibilitychange')({ isTrusted: true });
+      delete (document as any).visibilityState;
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', duration: 200, interrupted: true }]);
+    });
+
+    test('should record the isTrusted flag of each key with recordTrusted', () => {
+      const capture = new EventCapture({ recordTrusted: true });
+      const updates: KeyStreamUpdate[] = [];
+      capture.setStreamListener(update => updates.push(update));
+      capture.startCapture(onEventCallback, 0);
+
+      press('a', 'KeyA', true);
+      press('b', 'KeyB', false);
+
+      expect(capturedEvents.map(event => event.isTrusted)).toEqual([true, false]);
+      expect(updates[2]).toMatchObject({ type: 'pending', event: { key: 'b', isTrusted: false } });
+    });
+  });
+
+  describe('Overlapping Keys', () => {
+    let clock: VirtualClock;
+    let capture: EventCapture;
+    let chords: ChordRecord[];
+    const down = (key: string, code: string) => handler('keydown')({ key, code, repeat: false });
+    const up = (key: string, code: string) => handler('keyup')({ key, code, repeat: false });
+
+    beforeEach(() => {
+      clock = new VirtualClock(1000);
+      chords = [];
+      capture = startClockCapture(clock, {}, { onChord: chord => chords.push(chord) });
+    });
+
+    test('should record the keys already held at each key-down', () => {
+      down('Shift', 'ShiftLeft');
+      clock.advance(20);
+      down('W', 'KeyW');
+      clock.advance(20);
+      down('D', 'KeyD');
+      up('W', 'KeyW');
+      up('D', 'KeyD');
+      up('Shift', 'ShiftLeft');
+      down('a', 'KeyA');
+      up('a', 'KeyA');
+
+      expect(capturedEvents.map(event => [event.key, event.heldKeys])).toEqual([
+        ['W', ['Shift']],
+        ['D', ['Shift', 'W']],
+        ['Shift', undefined],
+        ['a', undefined]
+      ]);
+    });
+
+    test('should report one chord per stretch of overlapping keys', () => {
+      clock.advance(100);
+      down('t', 'KeyT');
+      clock.advance(30);
+      down('h', 'KeyH');
+      clock.advance(10);
+      up('t', 'KeyT');
+      clock.advance(5);
+      down('e', 'KeyE');
+      clock.advance(15);
+      up('h', 'KeyH');
+      clock.advance(40);
+      up('e', 'KeyE');
+
+      expect(chords).toEqual([
+        { keys: ['t', 'h'], codes: ['KeyT', 'KeyH'], timestamp: 130, duration: 10, peak: 2 },
+        { keys: ['h', 'e'], codes: ['KeyH', 'KeyE'], timestamp: 145, duration: 15, peak: 2 }
+      ]);
+    });
+
+    test('should extend a chord while at least two keys stay held', () => {
+      down('Control', 'ControlLeft');
+      down('Shift', 'ShiftLeft');
+      clock.advance(10);
+      down('K', 'KeyK');
+      clock.advance(10);
+      up('K', 'KeyK');
+      clock.advance(10);
+      up('Shift', 'ShiftLeft');
+
+      expect(chords).toEqual([
+        { keys: ['Control', 'Shift', 'K'], codes: ['ControlLeft', 'ShiftLeft', 'KeyK'], timestamp: 0, duration: 30, peak: 3 }
+      ]);
+      expect(capturedEvents.map(event => event.key)).toEqual(['K', 'Shift']);
+    });
+
+    test('should close an open chord when capture pauses or stops', () => {
+      down('a', 'KeyA');
+      down('s', 'KeyS');
+      clock.advance(25);
+      capture.pauseCapture();
+
+      expect(chords).toMatchObject([{ keys: ['a', 's'], duration: 25 }]);
+
+      capture.resumeCapture(1000);
+      down('d', 'KeyD');
+      down('f', 'KeyF');
+      clock.advance(5);
+      capture.stopCapture();
+
+      expect(chords).toMatchObject([{ keys: ['a', 's'] }, { keys: ['d', 'f'], timestamp: 25, duration: 5 }]);
+    });
+
+    test('should not leave a ghost held key when Shift changes the key value mid-press', () => {
+      down('a', 'KeyA');
+      clock.advance(10);
+      down('Shift', 'ShiftLeft');
+      clock.advance(10);
+      up('A', 'KeyA');
+      up('Shift', 'ShiftLeft');
+      clock.advance(50);
+      down('x', 'KeyX');
+      up('x', 'KeyX');
+
+      expect(capturedEvents.map(event => [event.key, event.heldKeys])).toEqual([
+        ['a', undefined],
+        ['Shift', ['a']],
+        ['x', undefined]
+      ]);
+      expect(chords).toEqual([
+        { keys: ['a', 'Shift'], codes: ['KeyA', 'ShiftLeft'], timestamp: 10, duration: 10, peak: 2 }
+      ]);
+      expect(capture.getPendingKeys()).toEqual([]);
+    });
+
+    test('should ignore keys dropped by filters', () => {
+      capture.stopCapture();
+      jest.clearAllMocks();
+      capture = startClockCapture(clock, { excludeKeys: ['Shift'] }, { onChord: chord => chords.push(chord) });
+
+      down('Shift', 'ShiftLeft');
+      down('a', 'KeyA');
+      up('a', 'KeyA');
+
+      expect(capturedEvents[0].heldKeys).toBeUndefined();
+      expect(chords).toEqual([]);
+    });
+  });
+
   describe('Key Repeat Event Handling', () => {
     beforeEach(() => {
       let timeCounter = 1000;
@@ -471,6 +1529,136 @@ describe('EventCapture', () => {
       // Should still capture one event for the keyup
       expect(capturedEvents).toHaveLength(1);
       expect(capturedEvents[0].key).toBe('a');
+      expect(capturedEvents[0]).not.toHaveProperty('repeatCount');
+    });
+
+    test('should keep the original press time and count repeats', () => {
+      const clock = new VirtualClock(0);
+      const repeatCapture = startClockCapture(clock);
+      const keydownHandler = handler('keydown');
+      const keyupHandler = handler('keyup');
+
+      clock.advance(100);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(500);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: true });
+      clock.advance(33);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: true });
+      clock.advance(33);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: true });
+      clock.advance(34);
+      keyupHandler({ key: 'a', code: 'KeyA', repeat: false });
+      repeatCapture.stopCapture();
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', timestamp: 100, duration: 600, repeatCount: 3 }]);
+    });
+
+    test('should record a held key as interrupted when it is pressed again without a repeat flag', () => {
+      const clock = new VirtualClock(0);
+      const repeatCapture = startClockCapture(clock);
+      const keydownHandler = handler('keydown');
+      const keyupHandler = handler('keyup');
+
+      clock.advance(100);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(200);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(50);
+      keyupHandler({ key: 'a', code: 'KeyA', repeat: false });
+      repeatCapture.stopCapture();
+
+      expect(capturedEvents).toMatchObject([
+        { timestamp: 100, duration: 200, interrupted: true },
+        { timestamp: 300, duration: 50 }
+      ]);
+      expect(capturedEvents[1]).not.toHaveProperty('interrupted');
+    });
+  });
+
+  describe('Virtual Clock', () => {
+    test('should take timestamps and durations from the configured clock', () => {
+      const clock = new VirtualClock(2000);
+      const virtualCapture = startClockCapture(clock);
+
+      const keydownHandler = handler('keydown');
+      const keyupHandler = handler('keyup');
+
+      clock.advance(150);
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(80);
+      keyupHandler({ key: 'a', code: 'KeyA', repeat: false });
+
+      virtualCapture.stopCapture();
+
+      expect(mockPerformanceNow).not.toHaveBeenCalled();
+      expect(capturedEvents).toHaveLength(1);
+      expect(capturedEvents[0].timestamp).toBe(150);
+      expect(capturedEvents[0].duration).toBe(80);
+    });
+  });
+
+  describe('Capture Target', () => {
+    const createMockTarget = () => ({
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn()
+    });
+
+    test('should attach listeners to the capture target instead of the document', () => {
+      const editorPanel = createMockTarget();
+      const scopedCapture = new EventCapture({ captureTarget: editorPanel as unknown as Element });
+
+      scopedCapture.startCapture(onEventCallback, 0);
+
+      expect(mockAddEventListener).not.toHaveBeenCalledWith('keydown', expect.any(Function), true);
+      expect(editorPanel.addEventListener).toHaveBeenCalledWith('keydown', expect.any(Function), true);
+      expect(editorPanel.addEventListener).toHaveBeenCalledWith('keyup', expect.any(Function), true);
+
+      scopedCapture.stopCapture();
+
+      expect(mockRemoveEventListener).not.toHaveBeenCalledWith('keydown', expect.any(Function), true);
+      expect(editorPanel.removeEventListener).toHaveBeenCalledWith('keydown', editorPanel.addEventListener.mock.calls[0][1], true);
+      expect(editorPanel.removeEventListener).toHaveBeenCalledWith('keyup', editorPanel.addEventListener.mock.calls[1][1], true);
+    });
+
+    test('should accept a shadow root as the capture target', () => {
+      const shadowRoot = createMockTarget();
+      const scopedCapture = new EventCapture({ captureTarget: shadowRoot as unknown as ShadowRoot });
+      mockPerformanceNow.mockReturnValueOnce(100).mockReturnValueOnce(160);
+
+      scopedCapture.startCapture(onEventCallback, 0);
+      const keydownHandler = shadowRoot.addEventListener.mock.calls.find(call => call[0] === 'keydown')![1];
+      const keyupHandler = shadowRoot.addEventListener.mock.calls.find(call => call[0] === 'keyup')![1];
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      keyupHandler({ key: 'a', code: 'KeyA', repeat: false });
+      scopedCapture.stopCapture();
+
+      expect(capturedEvents).toMatchObject([{ key: 'a', code: 'KeyA', duration: 60, timestamp: 100 }]);
+    });
+
+    test('should resolve a selector when capture starts', () => {
+      const editorPanel = createMockTarget();
+      const querySelector = jest.fn(() => editorPanel);
+      (document as any).querySelector = querySelector;
+
+      const scopedCapture = new EventCapture({ captureTarget: '#editor-panel' });
+      scopedCapture.startCapture(onEventCallback, 0);
+      scopedCapture.stopCapture();
+
+      expect(querySelector).toHaveBeenCalledWith('#editor-panel');
+      expect(editorPanel.addEventListener).toHaveBeenCalledTimes(5);
+      expect(editorPanel.removeEventListener).toHaveBeenCalledTimes(5);
+      delete (document as any).querySelector;
+    });
+
+    test('should throw and stay stopped when the selector matches nothing', () => {
+      (document as any).querySelector = jest.fn(() => null);
+
+      const scopedCapture = new EventCapture({ captureTarget: '#missing' });
+
+      expect(() => scopedCapture.startCapture(onEventCallback, 0))
+        .toThrow('Capture target selector "#missing" did not match any element');
+      expect(scopedCapture.isCurrentlyCapturing()).toBe(false);
+      delete (document as any).querySelector;
     });
   });
 
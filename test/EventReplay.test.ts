@@ -1,5 +1,7 @@
 import { EventReplay } from '../src/EventReplay';
-import { KeyEvent } from '../src/types';
+import { ReplayAbortError } from '../src/ReplayAbortError';
+import { VirtualClock } from '../src/VirtualClock';
+import { KeyEvent, ReplayProgressDetail, ReplaySeekDetail } from '../src/types';
 import * as fc from 'fast-check';
 
 describe('EventReplay', () => {
@@ -90,6 +92,993 @@ describe('EventReplay', () => {
     });
   });
 
+  describe('pauseReplay and resumeReplay', () => {
+    let dispatched: string[];
+    const listener = (event: Event) => {
+      dispatched.push((event as CustomEvent).detail.key);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      dispatched = [];
+      document.addEventListener('keyboardHistoryReplay', listener);
+    });
+
+    afterEach(() => {
+      document.removeEventListener('keyboardHistoryReplay', listener);
+      eventReplay.stopReplay();
+      jest.useRealTimers();
+    });
+
+    it('should handle pause and resume gracefully when not replaying', () => {
+      expect(() => eventReplay.pauseReplay()).not.toThrow();
+      expect(() => eventReplay.resumeReplay()).not.toThrow();
+      expect(eventReplay.isPaused()).toBe(false);
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+
+    it('should keep the position and remaining delay while paused', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1000);
+      expect(dispatched).toEqual(['a']);
+
+      jest.advanceTimersByTime(50);
+      eventReplay.pauseReplay();
+
+      expect(eventReplay.isPaused()).toBe(true);
+      expect(eventReplay.isReplaying()).toBe(true);
+      const session = eventReplay.getReplaySession();
+      expect(session.currentIndex).toBe(1);
+      expect(session.remainingDelay).toBe(150);
+      expect(session.timeoutIds).toEqual([]);
+
+      // Nothing is dispatched while paused
+      jest.advanceTimersByTime(5000);
+      expect(dispatched).toEqual(['a']);
+    });
+
+    it('should continue from the paused event with the time that was left', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1050);
+      eventReplay.pauseReplay();
+      jest.advanceTimersByTime(5000);
+
+      eventReplay.resumeReplay();
+      expect(eventReplay.isPaused()).toBe(false);
+      expect(eventReplay.getReplaySession().remainingDelay).toBeNull();
+
+      jest.advanceTimersByTime(149);
+      expect(dispatched).toEqual(['a']);
+      jest.advanceTimersByTime(1);
+      expect(dispatched).toEqual(['a', 'b']);
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+
+    it('should reset the paused position when stopped', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1050);
+      eventReplay.pauseReplay();
+      eventReplay.stopReplay();
+
+      const session = eventReplay.getReplaySession();
+      expect(session.isPaused).toBe(false);
+      expect(session.currentIndex).toBe(0);
+      expect(session.remainingDelay).toBeNull();
+    });
+  });
+
+  describe('seek and seekToIndex', () => {
+    const timeline: KeyEvent[] = [
+      { key: 'a', code: 'KeyA', duration: 100, timestamp: 100 },
+      { key: 'b', code: 'KeyB', duration: 100, timestamp: 300 },
+      { key: 'c', code: 'KeyC', duration: 100, timestamp: 600 },
+      { key: 'd', code: 'KeyD', duration: 100, timestamp: 1000 }
+    ];
+    let dispatched: string[];
+    let seekDetails: ReplaySeekDetail[];
+    const keyListener = (event: Event) => {
+      dispatched.push((event as CustomEvent).detail.key);
+    };
+    const seekListener = (event: Event) => {
+      seekDetails.push((event as CustomEvent<ReplaySeekDetail>).detail);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      dispatched = [];
+      seekDetails = [];
+      document.addEventListener('keyboardHistoryReplay', keyListener);
+      document.addEventListener('keyboardHistoryReplaySeek', seekListener);
+    });
+
+    afterEach(() => {
+      document.removeEventListener('keyboardHistoryReplay', keyListener);
+      document.removeEventListener('keyboardHistoryReplaySeek', seekListener);
+      eventReplay.stopReplay();
+      jest.useRealTimers();
+    });
+
+    it('should handle seeking gracefully when not replaying', () => {
+      expect(() => eventReplay.seek(500)).not.toThrow();
+      expect(() => eventReplay.seekToIndex(2)).not.toThrow();
+      expect(seekDetails).toEqual([]);
+    });
+
+    it('should reject invalid seek positions', () => {
+      eventReplay.replay(timeline);
+      expect(() => eventReplay.seek(-1)).toThrow('Seek timestamp must be a non-negative number');
+      expect(() => eventReplay.seek(NaN)).toThrow('Seek timestamp must be a non-negative number');
+      expect(() => eventReplay.seekToIndex(4)).toThrow('Seek index must be an integer between 0 and 3');
+      expect(() => eventReplay.seekToIndex(1.5)).toThrow('Seek index must be an integer between 0 and 3');
+    });
+
+    it('should continue from the first event at or after the timestamp while playing', () => {
+      eventReplay.replay(timeline);
+      jest.advanceTimersByTime(100);
+      expect(dispatched).toEqual(['a']);
+
+      eventReplay.seek(500);
+      expect(eventReplay.getPosition()).toBe(500);
+      expect(eventReplay.getReplaySession().currentIndex).toBe(2);
+
+      jest.advanceTimersByTime(99);
+      expect(dispatched).toEqual(['a']);
+      jest.advanceTimersByTime(1);
+      expect(dispatched).toEqual(['a', 'c']);
+      jest.advanceTimersByTime(400);
+      expect(dispatched).toEqual(['a', 'c', 'd']);
+    });
+
+    it('should notify listeners about skipped events', () => {
+      eventReplay.replay(timeline);
+      eventReplay.seek(700);
+
+      expect(seekDetails).toHaveLength(1);
+      expect(seekDetails[0].fromIndex).toBe(0);
+      expect(seekDetails[0].toIndex).toBe(3);
+      expect(seekDetails[0].position).toBe(700);
+      expect(seekDetails[0].skippedEvents.map(event => event.key)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should report no skipped events when seeking backwards', () => {
+      eventReplay.replay(timeline);
+      jest.advanceTimersByTime(600);
+      expect(dispatched).toEqual(['a', 'b', 'c']);
+
+      eventReplay.seekToIndex(1);
+      expect(seekDetails[0].skippedEvents).toEqual([]);
+      expect(seekDetails[0].position).toBe(300);
+
+      jest.advanceTimersByTime(0);
+      expect(dispatched).toEqual(['a', 'b', 'c', 'b']);
+    });
+
+    it('should move the playhead while paused without dispatching events', () => {
+      eventReplay.replay(timeline);
+      eventReplay.pauseReplay();
+      eventReplay.seek(250);
+
+      const session = eventReplay.getReplaySession();
+      expect(session.isPaused).toBe(true);
+      expect(session.currentIndex).toBe(1);
+      expect(session.remainingDelay).toBe(50);
+      expect(eventReplay.getPosition()).toBe(250);
+
+      jest.advanceTimersByTime(1000);
+      expect(dispatched).toEqual([]);
+
+      eventReplay.resumeReplay();
+      jest.advanceTimersByTime(50);
+      expect(dispatched).toEqual(['b']);
+    });
+
+    it('should keep the playhead on the last event when seeking past the end', () => {
+      eventReplay.replay(timeline);
+      eventReplay.seek(5000);
+
+      expect(eventReplay.getReplaySession().currentIndex).toBe(3);
+      expect(eventReplay.getPosition()).toBe(1000);
+
+      jest.advanceTimersByTime(0);
+      expect(dispatched).toEqual(['d']);
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+  });
+
+  describe('playbackRate', () => {
+    let dispatched: string[];
+    const listener = (event: Event) => {
+      dispatched.push((event as CustomEvent).detail.key);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      dispatched = [];
+      document.addEventListener('keyboardHistoryReplay', listener);
+    });
+
+    afterEach(() => {
+      document.removeEventListener('keyboardHistoryReplay', listener);
+      eventReplay.stopReplay();
+      jest.useRealTimers();
+    });
+
+    it('should default to normal speed', () => {
+      expect(eventReplay.getPlaybackRate()).toBe(1);
+    });
+
+    it('should reject non-positive playback rates', () => {
+      expect(() => eventReplay.setPlaybackRate(0)).toThrow('Playback rate must be a positive number');
+      expect(() => eventReplay.setPlaybackRate(-2)).toThrow('Playback rate must be a positive number');
+      expect(() => eventReplay.setPlaybackRate(Infinity)).toThrow('Playback rate must be a positive number');
+      expect(() => new EventReplay({ playbackRate: 0 })).toThrow('Playback rate must be a positive number');
+    });
+
+    it('should scale recorded intervals by the configured playback rate', () => {
+      eventReplay = new EventReplay({ playbackRate: 4 });
+      eventReplay.replay(mockEvents);
+
+      jest.advanceTimersByTime(250);
+      expect(dispatched).toEqual(['a']);
+      jest.advanceTimersByTime(49);
+      expect(dispatched).toEqual(['a']);
+      jest.advanceTimersByTime(1);
+      expect(dispatched).toEqual(['a', 'b']);
+    });
+
+    it('should rescale the pending delay when the rate changes mid-replay', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1100);
+      expect(dispatched).toEqual(['a']);
+
+      // 100ms of recorded time are left before 'b'; at 0.25x that takes 400ms
+      eventReplay.setPlaybackRate(0.25);
+      expect(eventReplay.getReplaySession().currentIndex).toBe(1);
+      expect(eventReplay.getPosition()).toBe(1100);
+
+      jest.advanceTimersByTime(399);
+      expect(dispatched).toEqual(['a']);
+      jest.advanceTimersByTime(1);
+      expect(dispatched).toEqual(['a', 'b']);
+    });
+
+    it('should rescale the remaining delay while paused', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1100);
+      eventReplay.pauseReplay();
+
+      eventReplay.setPlaybackRate(2);
+      expect(eventReplay.getReplaySession().remainingDelay).toBe(50);
+
+      eventReplay.resumeReplay();
+      jest.advanceTimersByTime(50);
+      expect(dispatched).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('replayAsync', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+    });
+
+    afterEach(() => {
+      eventReplay.stopReplay();
+      jest.useRealTimers();
+    });
+
+    it('should resolve once the last event has been dispatched', async () => {
+      const dispatched: string[] = [];
+      const listener = (event: Event) => dispatched.push((event as CustomEvent).detail.key);
+      document.addEventListener('keyboardHistoryReplay', listener);
+
+      const promise = eventReplay.replayAsync(mockEvents);
+      jest.advanceTimersByTime(1200);
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(dispatched).toEqual(['a', 'b']);
+      expect(eventReplay.isReplaying()).toBe(false);
+      document.removeEventListener('keyboardHistoryReplay', listener);
+    });
+
+    it('should resolve immediately for an empty events array', async () => {
+      await expect(eventReplay.replayAsync([])).resolves.toBeUndefined();
+    });
+
+    it('should reject with validation errors', async () => {
+      await expect(eventReplay.replayAsync([{ key: 'a' }] as any)).rejects.toThrow("Event at index 0 has invalid 'code' property");
+    });
+
+    it('should reject with a ReplayAbortError when stopReplay() is called', async () => {
+      const promise = eventReplay.replayAsync(mockEvents);
+      eventReplay.stopReplay();
+
+      await expect(promise).rejects.toBeInstanceOf(ReplayAbortError);
+    });
+
+    it('should reject with a ReplayAbortError when a Start listener stops the replay', async () => {
+      const stopOnStart = () => eventReplay.stopReplay();
+      document.addEventListener('keyboardHistoryReplayStart', stopOnStart);
+
+      const promise = eventReplay.replayAsync(mockEvents);
+      document.removeEventListener('keyboardHistoryReplayStart', stopOnStart);
+
+      await expect(promise).rejects.toBeInstanceOf(ReplayAbortError);
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+
+    it('should not let a rejected replayAsync() call settle the replay already in progress', async () => {
+      const running = eventReplay.replayAsync(mockEvents);
+
+      await expect(eventReplay.replayAsync(mockEvents)).rejects.toThrow('Replay is already in progress');
+      jest.advanceTimersByTime(1200);
+
+      await expect(running).resolves.toBeUndefined();
+    });
+
+    it('should stop the replay and reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const promise = eventReplay.replayAsync(mockEvents, { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(ReplayAbortError);
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+
+    it('should reject without replaying when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(eventReplay.replayAsync(mockEvents, { signal: controller.signal })).rejects.toThrow('Replay was aborted');
+      expect(eventReplay.isReplaying()).toBe(false);
+    });
+
+    it('should allow chaining replays', async () => {
+      const first = eventReplay.replayAsync(mockEvents);
+      jest.advanceTimersByTime(1200);
+      await first;
+
+      const second = eventReplay.replayAsync(mockEvents);
+      expect(eventReplay.isReplaying()).toBe(true);
+      jest.advanceTimersByTime(1200);
+      await expect(second).resolves.toBeUndefined();
+    });
+  });
+
+  describe('lifecycle notifications', () => {
+    const lifecycleTypes = ['Start', 'Progress', 'Pause', 'Resume', 'Complete', 'Abort'];
+    let notifications: { type: string; detail: ReplayProgressDetail }[];
+    const listeners = lifecycleTypes.map(type => ({
+      name: `keyboardHistoryReplay${type}`,
+      handler: (event: Event) => {
+        notifications.push({ type, detail: (event as CustomEvent<ReplayProgressDetail>).detail });
+      }
+    }));
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      notifications = [];
+      listeners.forEach(({ name, handler }) => document.addEventListener(name, handler));
+    });
+
+    afterEach(() => {
+      listeners.forEach(({ name, handler }) => document.removeEventListener(name, handler));
+      eventReplay.stopReplay();
+      jest.useRealTimers();
+    });
+
+    it('should emit start, progress and complete notifications for a full replay', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1200);
+
+      expect(notifications.map(notification => notification.type)).toEqual(['Start', 'Progress', 'Progress', 'Complete']);
+      expect(notifications[0].detail).toEqual({ index: 0, total: 2, elapsed: 0, remaining: 1200 });
+      expect(notifications[1].detail).toEqual({ index: 1, total: 2, elapsed: 1000, remaining: 200, timingError: 0 });
+      expect(notifications[2].detail).toEqual({ index: 2, total: 2, elapsed: 1200, remaining: 0, timingError: 0 });
+      expect(notifications[3].detail).toEqual({ index: 2, total: 2, elapsed: 1200, remaining: 0 });
+    });
+
+    it('should emit pause and resume notifications with the current position', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1050);
+      eventReplay.pauseReplay();
+      eventReplay.resumeReplay();
+
+      const pause = notifications.find(notification => notification.type === 'Pause');
+      const resume = notifications.find(notification => notification.type === 'Resume');
+      expect(pause!.detail).toEqual({ index: 1, total: 2, elapsed: 1050, remaining: 150 });
+      expect(resume!.detail).toEqual({ index: 1, total: 2, elapsed: 1050, remaining: 150 });
+    });
+
+    it('should emit an abort notification when the replay is stopped', () => {
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(500);
+      eventReplay.stopReplay();
+
+      expect(notifications.map(notification => notification.type)).toEqual(['Start', 'Abort']);
+      expect(notifications[1].detail).toEqual({ index: 0, total: 2, elapsed: 500, remaining: 700 });
+    });
+
+    it('should use the configured replay event name as prefix', () => {
+      const received: string[] = [];
+      const handler = (event: Event) => received.push(event.type);
+      document.addEventListener('customReplayStart', handler);
+      document.addEventListener('customReplayComplete', handler);
+
+      const customReplay = new EventReplay({ replayEventName: 'customReplay' });
+      customReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1200);
+
+      expect(received).toEqual(['customReplayStart', 'customReplayComplete']);
+      document.removeEventListener('customReplayStart', handler);
+      document.removeEventListener('customReplayComplete', handler);
+    });
+
+    it('should keep the position when a replay listener pauses the replay', () => {
+      const pauseOnFirstKey = () => eventReplay.pauseReplay();
+      document.addEventListener('keyboardHistoryReplay', pauseOnFirstKey, { once: true });
+
+      eventReplay.replay(mockEvents);
+      jest.advanceTimersByTime(1000);
+
+      const session = eventReplay.getReplaySession();
+      expect(session.isPaused).toBe(true);
+      expect(session.currentIndex).toBe(1);
+      expect(session.remainingDelay).toBe(200);
+      expect(session.timeoutIds).toEqual([]);
+    });
+  });
+
+  describe('drift correction', () => {
+    const timeline: KeyEvent[] = Array.from({ length: 10 }, (_, i) => ({
+      key: String.fromCharCode(97 + i),
+      code: `Key${String.fromCharCode(65 + i)}`,
+      duration: 50,
+      timestamp: (i + 1) * 100
+    }));
+    let lag: number;
+    let details: { replayTimestamp: number; timingError: number }[];
+    const listener = (event: Event) => {
+      details.push((event as CustomEvent).detail);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['performance'] });
+      lag = 0;
+      details = [];
+      (performance.now as jest.Mock).mockImplementation(() => Date.now() + lag);
+      document.addEventListener('keyboardHistoryReplay', listener);
+    });
+
+    afterEach(() => {
+      document.removeEventListener('keyboardHistoryReplay', listener);
+      eventReplay.stopReplay();
+      (performance.now as jest.Mock).mockImplementation(() => Date.now());
+      jest.useRealTimers();
+    });
+
+    it('should not accumulate time spent handling events across the replay', () => {
+      // Every dispatched event costs 30ms of handler time
+      const slowListener = () => {
+        lag += 30;
+      };
+      document.addEventListener('keyboardHistoryReplay', slowListener);
+
+      eventReplay.replay(timeline);
+      const startTime = eventReplay.getReplaySession().startTime!;
+      jest.advanceTimersByTime(1000);
+
+      expect(details).toHaveLength(10);
+      expect(details[9].replayTimestamp - startTime).toBe(1000);
+      details.forEach(detail => expect(detail.timingError).toBe(0));
+      document.removeEventListener('keyboardHistoryReplay', slowListener);
+    });
+
+    it('should report lateness and catch up with the original timeline', () => {
+      const stallOnFirstKey = () => {
+        lag += 250;
+      };
+      document.addEventListener('keyboardHistoryReplay', stallOnFirstKey, { once: true });
+
+      eventReplay.replay(timeline);
+      const startTime = eventReplay.getReplaySession().startTime!;
+      jest.advanceTimersByTime(1000);
+
+      const timingErrors = details.map(detail => detail.timingError);
+      expect(timingErrors[0]).toBe(0);
+      expect(timingErrors[1]).toBeGreaterThanOrEqual(150);
+      expect(timingErrors[2]).toBeGreaterThanOrEqual(50);
+      expect(timingErrors[2]).toBeLessThan(timingErrors[1]);
+      expect(timingErrors.slice(3)).toEqual([0, 0, 0, 0, 0, 0, 0]);
+      expect(details[9].replayTimestamp - startTime).toBe(1000);
+    });
+
+    it('should report lateness on progress notifications in keyboard replay mode', () => {
+      const keyboardReplay = new EventReplay({ replayMode: 'keyboard' });
+      const progress: ReplayProgressDetail[] = [];
+      const onProgress = (event: Event) => progress.push((event as CustomEvent<ReplayProgressDetail>).detail);
+      const stallOnFirstKey = () => {
+        lag += 250;
+      };
+      document.addEventListener('keyboardHistoryReplayProgress', onProgress);
+      document.addEventListener('keydown', stallOnFirstKey, { once: true });
+
+      keyboardReplay.replay(timeline);
+      jest.advanceTimersByTime(1000);
+      keyboardReplay.stopReplay();
+      document.removeEventListener('keyboardHistoryReplayProgress', onProgress);
+
+      const timingErrors = progress.map(detail => detail.timingError);
+      expect(details).toHaveLength(0);
+      expect(timingErrors[0]).toBe(0);
+      expect(timingErrors[1]).toBeGreaterThanOrEqual(150);
+      expect(timingErrors.slice(3)).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('virtual clock', () => {
+    it('should replay deterministically when the virtual clock is advanced', () => {
+      const clock = new VirtualClock(500);
+      const virtualReplay = new EventReplay({ clock });
+      const details: any[] = [];
+      const listener = (event: Event) => details.push((event as CustomEvent).detail);
+      document.addEventListener('keyboardHistoryReplay', listener);
+
+      virtualReplay.replay(mockEvents);
+      expect(virtualReplay.getReplaySession().startTime).toBe(500);
+
+      clock.advance(999);
+      expect(details).toHaveLength(0);
+
+      clock.advance(1);
+      expect(details).toHaveLength(1);
+      expect(details[0].replayTimestamp).toBe(1500);
+      expect(details[0].timingError).toBe(0);
+
+      clock.runAll();
+      expect(details.map(detail => detail.key)).toEqual(['a', 'b']);
+      expect(details[1].replayTimestamp).toBe(1700);
+      expect(virtualReplay.isReplaying()).toBe(false);
+      document.removeEventListener('keyboardHistoryReplay', listener);
+    });
+
+    it('should cancel pending virtual timers when stopped', () => {
+      const clock = new VirtualClock();
+      const virtualReplay = new EventReplay({ clock });
+
+      virtualReplay.replay(mockEvents);
+      expect(clock.getPendingTimerCount()).toBe(1);
+
+      virtualReplay.stopReplay();
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+  });
+
+  describe('keyboard replay mode', () => {
+    let clock: VirtualClock;
+    let keyboardReplay: EventReplay;
+    let dispatched: string[];
+    const listener = (event: Event) => {
+      const keyboardEvent = event as KeyboardEvent;
+      dispatched.push(`${keyboardEvent.type}:${keyboardEvent.key}@${clock.now()}`);
+    };
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      keyboardReplay = new EventReplay({ clock, replayMode: 'keyboard' });
+      dispatched = [];
+      document.addEventListener('keydown', listener);
+      document.addEventListener('keyup', listener);
+    });
+
+    afterEach(() => {
+      keyboardReplay.stopReplay();
+      document.removeEventListener('keydown', listener);
+      document.removeEventListener('keyup', listener);
+    });
+
+    it('should dispatch KeyboardEvent keydown/keyup pairs with recorded key and code', () => {
+      const received: KeyboardEvent[] = [];
+      const capture = (event: Event) => received.push(event as KeyboardEvent);
+      document.addEventListener('keydown', capture);
+
+      keyboardReplay.replay(mockEvents);
+      clock.runAll();
+      document.removeEventListener('keydown', capture);
+
+      expect(received[0]).toBeInstanceOf(KeyboardEvent);
+      expect(received[0].code).toBe('KeyA');
+      expect(received[0].bubbles).toBe(true);
+      expect(received[0].cancelable).toBe(true);
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@1100', 'keydown:b@1200', 'keyup:b@1350']);
+    });
+
+    it('should not dispatch the custom replay event', () => {
+      const customListener = jest.fn();
+      document.addEventListener('keyboardHistoryReplay', customListener);
+
+      keyboardReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(customListener).not.toHaveBeenCalled();
+      document.removeEventListener('keyboardHistoryReplay', customListener);
+    });
+
+    it('should complete only after the last key is released', () => {
+      const complete = jest.fn();
+      document.addEventListener('keyboardHistoryReplayComplete', complete);
+
+      keyboardReplay.replay(mockEvents);
+      clock.advance(1200);
+      expect(keyboardReplay.isReplaying()).toBe(true);
+      expect(complete).not.toHaveBeenCalled();
+
+      clock.advance(150);
+      expect(keyboardReplay.isReplaying()).toBe(false);
+      expect(complete).toHaveBeenCalledTimes(1);
+      document.removeEventListener('keyboardHistoryReplayComplete', complete);
+    });
+
+    it('should keep a key held while paused and release it after resuming', () => {
+      keyboardReplay.replay(mockEvents);
+      clock.advance(1050);
+      keyboardReplay.pauseReplay();
+
+      clock.advance(500);
+      expect(dispatched).toEqual(['keydown:a@1000']);
+
+      keyboardReplay.resumeReplay();
+      clock.runAll();
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@1600', 'keydown:b@1700', 'keyup:b@1850']);
+    });
+
+    it('should scale key hold durations by the playback rate', () => {
+      keyboardReplay.setPlaybackRate(2);
+      keyboardReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(dispatched).toEqual(['keydown:a@500', 'keyup:a@550', 'keydown:b@600', 'keyup:b@675']);
+    });
+
+    it('should rescale the release of a key held after the last key-down', () => {
+      keyboardReplay.replay([{ key: 'a', code: 'KeyA', duration: 500, timestamp: 1000 }]);
+      clock.advance(1200);
+      keyboardReplay.setPlaybackRate(2);
+
+      clock.runAll();
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@1350']);
+    });
+
+    it('should rescale the release of a held key when the rate changes while paused', () => {
+      keyboardReplay.replay([{ key: 'a', code: 'KeyA', duration: 500, timestamp: 1000 }]);
+      clock.advance(1200);
+      keyboardReplay.pauseReplay();
+      clock.advance(1000);
+      keyboardReplay.setPlaybackRate(0.5);
+      keyboardReplay.resumeReplay();
+
+      clock.runAll();
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@2800']);
+    });
+
+    it('should release held keys immediately when stopped', () => {
+      keyboardReplay.replay(mockEvents);
+      clock.advance(1050);
+      keyboardReplay.stopReplay();
+
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@1050']);
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+
+    it('should release held keys before seeking', () => {
+      keyboardReplay.replay(mockEvents);
+      clock.advance(1050);
+      keyboardReplay.seekToIndex(1);
+
+      expect(dispatched).toEqual(['keydown:a@1000', 'keyup:a@1050']);
+      clock.runAll();
+      expect(dispatched.slice(2)).toEqual(['keydown:b@1050', 'keyup:b@1200']);
+    });
+  });
+
+  describe('replay target', () => {
+    let clock: VirtualClock;
+    let editor: HTMLDivElement;
+    let otherEditor: HTMLDivElement;
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      editor = document.createElement('div');
+      editor.id = 'editor';
+      otherEditor = document.createElement('div');
+      otherEditor.id = 'other-editor';
+      document.body.append(editor, otherEditor);
+    });
+
+    afterEach(() => {
+      editor.remove();
+      otherEditor.remove();
+    });
+
+    it('should dispatch replay events on a target element', () => {
+      const targetReplay = new EventReplay({ clock, replayTarget: editor });
+      const editorListener = jest.fn();
+      const otherListener = jest.fn();
+      editor.addEventListener('keyboardHistoryReplay', editorListener);
+      otherEditor.addEventListener('keyboardHistoryReplay', otherListener);
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(editorListener).toHaveBeenCalledTimes(2);
+      expect(otherListener).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a selector target when each event is dispatched', () => {
+      const targetReplay = new EventReplay({ clock, replayTarget: '#other-editor' });
+      const otherListener = jest.fn();
+      otherEditor.addEventListener('keyboardHistoryReplay', otherListener);
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(otherListener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should call a resolver function for each event', () => {
+      const resolver = jest.fn((event: KeyEvent) => (event.key === 'a' ? editor : otherEditor));
+      const targetReplay = new EventReplay({ clock, replayTarget: resolver });
+      const editorKeys: string[] = [];
+      const otherKeys: string[] = [];
+      editor.addEventListener('keyboardHistoryReplay', event => editorKeys.push((event as CustomEvent).detail.key));
+      otherEditor.addEventListener('keyboardHistoryReplay', event => otherKeys.push((event as CustomEvent).detail.key));
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(resolver).toHaveBeenCalledTimes(2);
+      expect(editorKeys).toEqual(['a']);
+      expect(otherKeys).toEqual(['b']);
+    });
+
+    it('should skip events whose selector target matches nothing instead of using the document', () => {
+      const targetReplay = new EventReplay({ clock, replayTarget: '#missing' });
+      const listener = jest.fn();
+      const complete = jest.fn();
+      document.addEventListener('keyboardHistoryReplay', listener);
+      document.addEventListener('keyboardHistoryReplayComplete', complete);
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(complete).toHaveBeenCalledTimes(1);
+      document.removeEventListener('keyboardHistoryReplay', listener);
+      document.removeEventListener('keyboardHistoryReplayComplete', complete);
+    });
+
+    it('should skip keys the resolver returns null for in keyboard mode', () => {
+      const targetReplay = new EventReplay({
+        clock,
+        replayMode: 'keyboard',
+        replayTarget: (event) => (event.key === 'a' ? editor : null)
+      });
+      const documentKeys: string[] = [];
+      const editorKeys: string[] = [];
+      const recordDocumentKey = (event: Event) => documentKeys.push((event as KeyboardEvent).key);
+      document.addEventListener('keydown', recordDocumentKey);
+      editor.addEventListener('keydown', event => editorKeys.push(event.key));
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(editorKeys).toEqual(['a']);
+      // The editor's keydown bubbles to the document; 'b' is never dispatched
+      expect(documentKeys).toEqual(['a']);
+      expect(targetReplay.isReplaying()).toBe(false);
+      document.removeEventListener('keydown', recordDocumentKey);
+    });
+
+    it('should send the keyup to the same target as the keydown in keyboard mode', () => {
+      let target: EventTarget = editor;
+      const targetReplay = new EventReplay({ clock, replayMode: 'keyboard', replayTarget: () => target });
+      const editorEvents: string[] = [];
+      editor.addEventListener('keydown', event => editorEvents.push(event.type));
+      editor.addEventListener('keyup', event => editorEvents.push(event.type));
+
+      targetReplay.replay([mockEvents[0]]);
+      clock.advance(1000);
+      target = otherEditor;
+      clock.runAll();
+
+      expect(editorEvents).toEqual(['keydown', 'keyup']);
+    });
+
+    it('should keep lifecycle notifications on the document', () => {
+      const targetReplay = new EventReplay({ clock, replayTarget: editor });
+      const complete = jest.fn();
+      document.addEventListener('keyboardHistoryReplayComplete', complete);
+
+      targetReplay.replay(mockEvents);
+      clock.runAll();
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      document.removeEventListener('keyboardHistoryReplayComplete', complete);
+    });
+  });
+
+  describe('type replay mode', () => {
+    let clock: VirtualClock;
+    let input: HTMLInputElement;
+
+    beforeEach(() => {
+      clock = new VirtualClock();
+      input = document.createElement('input');
+      document.body.appendChild(input);
+    });
+
+    afterEach(() => {
+      input.remove();
+    });
+
+    const typedEvents = (keys: string[]): KeyEvent[] =>
+      keys.map((key, index) => ({ key, code: key.length === 1 ? `Key${key.toUpperCase()}` : key, duration: 50, timestamp: 100 * (index + 1) }));
+
+    it('should type recorded keys into the replay target', () => {
+      const typeReplay = new EventReplay({ clock, replayMode: 'type', replayTarget: input });
+      const keydowns: string[] = [];
+      input.addEventListener('keydown', event => keydowns.push(event.key));
+
+      typeReplay.replay(typedEvents(['h', 'e', 'y', 'Backspace', 'i']));
+      clock.advance(300);
+      expect(input.value).toBe('hey');
+
+      clock.runAll();
+      expect(input.value).toBe('hei');
+      expect(keydowns).toEqual(['h', 'e', 'y', 'Backspace', 'i']);
+    });
+
+    it('should not type keys whose keydown was canceled', () => {
+      const typeReplay = new EventReplay({ clock, replayMode: 'type', replayTarget: input });
+      input.addEventListener('keydown', event => {
+        if (event.key === 'x') {
+          event.preventDefault();
+        }
+      });
+
+      typeReplay.replay(typedEvents(['a', 'x', 'b']));
+      clock.runAll();
+
+      expect(input.value).toBe('ab');
+    });
+
+    it('should type into the focused element when no target is configured', () => {
+      const typeReplay = new EventReplay({ clock, replayMode: 'type' });
+      input.focus();
+
+      typeReplay.replay(typedEvents(['o', 'k']));
+      clock.runAll();
+
+      expect(input.value).toBe('ok');
+    });
+  });
+
+  describe('modifier state', () => {
+    const ctrlModifiers = { ctrlKey: true, shiftKey: false, altKey: false, metaKey: false, capsLock: true, numLock: false };
+    const shortcutEvents: KeyEvent[] = [{ key: 'c', code: 'KeyC', duration: 50, timestamp: 100, modifiers: ctrlModifiers }];
+
+    it('should include modifiers in the replay event detail', () => {
+      const clock = new VirtualClock();
+      const modifierReplay = new EventReplay({ clock });
+      const details: any[] = [];
+      const listener = (event: Event) => details.push((event as CustomEvent).detail);
+      document.addEventListener('keyboardHistoryReplay', listener);
+
+      modifierReplay.replay(shortcutEvents);
+      clock.runAll();
+
+      expect(details[0].modifiers).toEqual(ctrlModifiers);
+      document.removeEventListener('keyboardHistoryReplay', listener);
+    });
+
+    it('should set modifier flags on dispatched KeyboardEvents', () => {
+      const clock = new VirtualClock();
+      const modifierReplay = new EventReplay({ clock, replayMode: 'keyboard' });
+      const received: KeyboardEvent[] = [];
+      const listener = (event: Event) => received.push(event as KeyboardEvent);
+      document.addEventListener('keydown', listener);
+
+      modifierReplay.replay(shortcutEvents);
+      clock.runAll();
+
+      expect(received[0].ctrlKey).toBe(true);
+      expect(received[0].shiftKey).toBe(false);
+      expect(received[0].getModifierState('CapsLock')).toBe(true);
+      expect(received[0].getModifierState('NumLock')).toBe(false);
+      document.removeEventListener('keydown', listener);
+    });
+
+    it('should not type Ctrl/Meta shortcuts in type mode', () => {
+      const clock = new VirtualClock();
+      const input = document.createElement('input');
+      const typeReplay = new EventReplay({ clock, replayMode: 'type', replayTarget: input });
+
+      typeReplay.replay([...shortcutEvents, { key: 'v', code: 'KeyV', duration: 50, timestamp: 200 }]);
+      clock.runAll();
+
+      expect(input.value).toBe('v');
+    });
+
+    it('should type AltGr characters, which Windows reports as Ctrl+Alt, in type mode', () => {
+      const clock = new VirtualClock();
+      const input = document.createElement('input');
+      const typeReplay = new EventReplay({ clock, replayMode: 'type', replayTarget: input });
+      const altGrModifiers = { ...ctrlModifiers, altKey: true, capsLock: false };
+
+      typeReplay.replay([
+        { key: '@', code: 'KeyQ', duration: 50, timestamp: 100, modifiers: altGrModifiers },
+        { key: '€', code: 'KeyE', duration: 50, timestamp: 200, modifiers: altGrModifiers }
+      ]);
+      clock.runAll();
+
+      expect(input.value).toBe('@€');
+    });
+
+    it('should reject events with invalid modifiers', () => {
+      const invalidEvents = [{ ...mockEvents[0], modifiers: { ctrlKey: 1 } }];
+
+      expect(() => eventReplay.replay(invalidEvents as unknown as KeyEvent[]))
+        .toThrow("Event at index 0 has invalid 'modifiers' property: expected an object of boolean modifier flags");
+    });
+  });
+
+  describe('key location', () => {
+    const locatedEvents: KeyEvent[] = [
+      { key: 'Control', code: 'ControlRight', duration: 50, timestamp: 100, location: 'right' },
+      { key: '5', code: 'Numpad5', duration: 50, timestamp: 200, location: 'numpad' },
+      { key: 'a', code: 'KeyA', duration: 50, timestamp: 300 }
+    ];
+
+    it('should carry the recorded location on dispatched KeyboardEvents', () => {
+      const clock = new VirtualClock();
+      const keyboardReplay = new EventReplay({ clock, replayMode: 'keyboard' });
+      const locations: number[] = [];
+      const listener = (event: Event) => locations.push((event as KeyboardEvent).location);
+      document.addEventListener('keydown', listener);
+
+      keyboardReplay.replay(locatedEvents);
+      clock.runAll();
+
+      expect(locations).toEqual([
+        KeyboardEvent.DOM_KEY_LOCATION_RIGHT,
+        KeyboardEvent.DOM_KEY_LOCATION_NUMPAD,
+        KeyboardEvent.DOM_KEY_LOCATION_STANDARD
+      ]);
+      document.removeEventListener('keydown', listener);
+    });
+
+    it('should include the location in the replay event detail', () => {
+      const clock = new VirtualClock();
+      const customReplay = new EventReplay({ clock });
+      const locations: string[] = [];
+      const listener = (event: Event) => locations.push((event as CustomEvent).detail.location);
+      document.addEventListener('keyboardHistoryReplay', listener);
+
+      customReplay.replay(locatedEvents.slice(0, 2));
+      clock.runAll();
+
+      expect(locations).toEqual(['right', 'numpad']);
+      document.removeEventListener('keyboardHistoryReplay', listener);
+    });
+
+    it('should reject events with an unknown location', () => {
+      const invalidEvents = [{ ...mockEvents[0], location: 'middle' }];
+
+      expect(() => eventReplay.replay(invalidEvents as unknown as KeyEvent[]))
+        .toThrow("Event at index 0 has invalid 'location' property: expected one of standard, left, right, numpad, got middle");
+    });
+  });
+
   describe('getReplaySession', () => {
     it('should return copy of session to prevent external modification', () => {
       const session1 = eventReplay.getReplaySession();
@@ -93,13 +93,159 @@ describe('EventStore', () => {
       const invalidEvent = {
         key: 'a',
         duration: 150,
-        timestamp: 0,
+        timestamp: -1,
         code: 'KeyA'
       };
 
       expect(() => {
         eventStore.addEvent(invalidEvent as KeyEvent);
-      }).toThrow('Event timestamp must be a positive number');
+      }).toThrow('Event timestamp must be a non-negative number');
+    });
+
+    test('accepts a key pressed at the start of the session', () => {
+      eventStore.addEvent({ key: 'a', duration: 150, timestamp: 0, code: 'KeyA' });
+
+      expect(eventStore.getAllEvents()).toHaveLength(1);
+    });
+
+    test('accepts events with modifier state', () => {
+      const event: KeyEvent = {
+        key: 'c',
+        duration: 80,
+        timestamp: 1000,
+        code: 'KeyC',
+        modifiers: { ctrlKey: true, shiftKey: false, altKey: false, metaKey: false, capsLock: false, numLock: true }
+      };
+
+      eventStore.addEvent(event);
+
+      expect(eventStore.getAllEvents()[0].modifiers).toEqual(event.modifiers);
+    });
+
+    test('throws error for invalid location property', () => {
+      const invalidEvent = {
+        key: 'Shift',
+        duration: 80,
+        timestamp: 1000,
+        code: 'ShiftLeft',
+        location: 'top'
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event location must be one of: standard, left, right, numpad');
+    });
+
+    test('throws error for invalid compositionId property', () => {
+      const invalidEvent = {
+        key: 'Process',
+        duration: 80,
+        timestamp: 1000,
+        code: 'KeyA',
+        compositionId: 1.5
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as KeyEvent);
+      }).toThrow('Event compositionId must be a positive integer');
+    });
+
+    test('throws error for invalid interrupted property', () => {
+      const invalidEvent = {
+        key: 'a',
+        duration: 80,
+        timestamp: 1000,
+        code: 'KeyA',
+        interrupted: 'yes'
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event interrupted flag must be a boolean');
+    });
+
+    test('throws error for invalid repeatCount property', () => {
+      const invalidEvent = {
+        key: 'a',
+        duration: 800,
+        timestamp: 1000,
+        code: 'KeyA',
+        repeatCount: -1
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as KeyEvent);
+      }).toThrow('Event repeatCount must be a non-negative integer');
+    });
+
+    test('throws error for invalid redacted property', () => {
+      const invalidEvent = {
+        key: 'Redacted',
+        duration: 800,
+        timestamp: 1000,
+        code: 'Redacted',
+        redacted: 1
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event redacted flag must be a boolean');
+    });
+
+    test('throws error for invalid element property', () => {
+      const invalidEvent = {
+        key: 'a',
+        duration: 800,
+        timestamp: 1000,
+        code: 'KeyA',
+        element: 'input'
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event element must be an object with a string tag');
+    });
+
+    test('throws error for invalid isTrusted property', () => {
+      const invalidEvent = {
+        key: 'a',
+        duration: 800,
+        timestamp: 1000,
+        code: 'KeyA',
+        isTrusted: 'true'
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event isTrusted flag must be a boolean');
+    });
+
+    test('throws error for invalid heldKeys property', () => {
+      const invalidEvent = {
+        key: 'a',
+        duration: 800,
+        timestamp: 1000,
+        code: 'KeyA',
+        heldKeys: ['Shift', 16]
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event heldKeys must be an array of strings');
+    });
+
+    test('throws error for invalid modifiers property', () => {
+      const invalidEvent = {
+        key: 'c',
+        duration: 80,
+        timestamp: 1000,
+        code: 'KeyC',
+        modifiers: { ctrlKey: 'yes' }
+      };
+
+      expect(() => {
+        eventStore.addEvent(invalidEvent as unknown as KeyEvent);
+      }).toThrow('Event modifiers must be an object of boolean modifier flags');
     });
   });
 
@@ -421,7 +567,7 @@ describe('EventStore', () => {
         invalidEvents.forEach(event => {
           expect(() => {
             eventStore.addEvent(event as any);
-          }).toThrow('Event timestamp must be a positive number');
+          }).toThrow('Event timestamp must be a non-negative number');
         });
       });
 
@@ -1,5 +1,7 @@
 import { KeyboardHistory } from '../src/KeyboardHistory';
-import { KeyEvent } from '../src/types';
+import { ReplayAbortError } from '../src/ReplayAbortError';
+import { VirtualClock } from '../src/VirtualClock';
+import { KeyEvent, KeyStreamUpdate, KeyboardHistoryConfig } from '../src/types';
 import * as fc from 'fast-check';
 
 // Mock performance.now for consistent testing
@@ -10,13 +12,15 @@ Object.defineProperty(global, 'performance', {
   }
 });
 
-// Mock document event listeners
+// Mock document event listeners and dispatching
 const mockAddEventListener = jest.fn();
 const mockRemoveEventListener = jest.fn();
+const mockDispatchEvent = jest.fn();
 Object.defineProperty(global, 'document', {
   value: {
     addEventListener: mockAddEventListener,
-    removeEventListener: mockRemoveEventListener
+    removeEventListener: mockRemoveEventListener,
+    dispatchEvent: mockDispatchEvent
   }
 });
 
@@ -29,6 +33,17 @@ describe('KeyboardHistory', () => {
     keyboardHistory = new KeyboardHistory();
   });
 
+  // Listener the capture registered on the mocked document for an event type
+  const handler = (type: string) => mockAddEventListener.mock.calls.find(call => call[0] === type)![1];
+
+  // Starts recording with a recorder driven by a virtual clock at time 0
+  const startClockHistory = (config: KeyboardHistoryConfig = {}) => {
+    const clock = new VirtualClock(0);
+    const history = new KeyboardHistory({ clock, ...config });
+    history.start();
+    return { clock, history };
+  };
+
   describe('Constructor', () => {
     it('should create a KeyboardHistory instance', () => {
       expect(keyboardHistory).toBeInstanceOf(KeyboardHistory);
@@ -79,6 +94,16 @@ describe('KeyboardHistory', () => {
       keyboardHistory.start();
       expect(keyboardHistory.isRecording()).toBe(true);
     });
+
+    it('should stay stopped when the capture target cannot be found', () => {
+      (document as any).querySelector = jest.fn(() => null);
+      const scopedHistory = new KeyboardHistory({ captureTarget: '#editor-panel' });
+
+      expect(() => scopedHistory.start()).toThrow('Capture target selector "#editor-panel" did not match any element');
+      expect(scopedHistory.isRecording()).toBe(false);
+      expect(scopedHistory.getSession().startTime).toBeNull();
+      delete (document as any).querySelector;
+    });
   });
 
   describe('Data Retrieval', () => {
@@ -97,6 +122,192 @@ describe('KeyboardHistory', () => {
     });
   });
 
+  describe('IME Compositions', () => {
+    it('should expose compositions recorded during the session', () => {
+      const { clock, history } = startClockHistory();
+
+      clock.advance(10);
+      handler('keydown')({ key: 'Process', code: 'KeyA', repeat: false });
+      handler('compositionstart')({ data: '' });
+      clock.advance(20);
+      handler('keyup')({ key: 'Process', code: 'KeyA', repeat: false });
+      handler('compositionend')({ data: 'あ' });
+      history.stop();
+
+      expect(history.getRecordedCompositions()).toEqual([{ id: 1, text: 'あ', timestamp: 10, duration: 20, updates: [] }]);
+      expect(history.getRecordedKeys()[0].compositionId).toBe(1);
+
+      history.start();
+      expect(history.getRecordedCompositions()).toEqual([]);
+    });
+  });
+
+  describe('Clipboard Actions', () => {
+    it('should keep clipboard actions apart from recorded keys', () => {
+      const { clock, history } = startClockHistory({ captureClipboard: true });
+
+      clock.advance(10);
+      handler('keydown')({ key: 'v', code: 'KeyV', repeat: false, ctrlKey: true });
+      handler('paste')({ type: 'paste', clipboardData: { getData: () => 'pasted text' } });
+      clock.advance(20);
+      handler('keyup')({ key: 'v', code: 'KeyV', repeat: false });
+      history.stop();
+
+      expect(history.getRecordedClipboardActions()).toEqual([{ action: 'paste', timestamp: 10, length: 11 }]);
+      expect(history.getRecordedKeys()).toHaveLength(1);
+
+      history.start();
+      expect(history.getRecordedClipboardActions()).toEqual([]);
+    });
+  });
+
+  describe('Chords', () => {
+    it('should expose chords recorded during the session', () => {
+      const { clock, history } = startClockHistory();
+
+      clock.advance(10);
+      handler('keydown')({ key: 'Control', code: 'ControlLeft', repeat: false });
+      handler('keydown')({ key: 's', code: 'KeyS', repeat: false, ctrlKey: true });
+      clock.advance(40);
+      handler('keyup')({ key: 's', code: 'KeyS', repeat: false });
+      handler('keyup')({ key: 'Control', code: 'ControlLeft', repeat: false });
+      history.stop();
+
+      expect(history.getRecordedChords()).toEqual([
+        { keys: ['Control', 's'], codes: ['ControlLeft', 'KeyS'], timestamp: 10, duration: 40, peak: 2 }
+      ]);
+      expect(history.getRecordedKeys()[0].heldKeys).toEqual(['Control']);
+
+      history.start();
+      expect(history.getRecordedChords()).toEqual([]);
+    });
+
+    it('should keep only the latest maxEvents chords', () => {
+      const { clock, history } = startClockHistory({ maxEvents: 2 });
+
+      for (let i = 0; i < 10; i++) {
+        clock.advance(10);
+        handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+        handler('keydown')({ key: 'b', code: 'KeyB', repeat: false });
+        clock.advance(10);
+        handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+        handler('keyup')({ key: 'b', code: 'KeyB', repeat: false });
+      }
+      history.stop();
+
+      expect(history.getRecordedKeys()).toHaveLength(2);
+      expect(history.getRecordedChords().map(chord => chord.timestamp)).toEqual([170, 190]);
+    });
+  });
+
+  describe('Key Streaming', () => {
+    it('should stream pending and completed keys to subscribers until they unsubscribe', () => {
+      const { clock, history } = startClockHistory();
+
+      const first = jest.fn();
+      const second = jest.fn();
+
+      const unsubscribeFirst = history.subscribe(first);
+      const unsubscribeSecond = history.subscribe(second);
+
+      clock.advance(10);
+      handler('keydown')({ key: 'a', code: 'KeyA', repeat: false });
+      expect(history.getPendingKeys().map(event => event.key)).toEqual(['a']);
+      expect(history.getRecordedKeys()).toHaveLength(0);
+      expect(first).toHaveBeenCalledWith(expect.objectContaining({ type: 'pending' }));
+      expect(second).toHaveBeenCalledTimes(1);
+
+      unsubscribeFirst();
+      clock.advance(50);
+      handler('keyup')({ key: 'a', code: 'KeyA', repeat: false });
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenLastCalledWith({ type: 'complete', id: 1, event: history.getRecordedKeys()[0] });
+      expect(history.getPendingKeys()).toEqual([]);
+
+      unsubscribeSecond();
+      handler('keydown')({ key: 'b', code: 'KeyB', repeat: false });
+      expect(second).toHaveBeenCalledTimes(2);
+      history.stop();
+    });
+  });
+
+  describe('Recording Pause', () => {
+    const press = (clock: VirtualClock, key: string, code: string) => {
+      handler('keydown')({ key, code, repeat: false });
+      clock.advance(50);
+      handler('keyup')({ key, code, repeat: false });
+    };
+
+    it('should keep the session and its events across pause and resume', () => {
+      const { clock, history } = startClockHistory();
+
+      clock.advance(100);
+      press(clock, 'a', 'KeyA');
+      history.pause();
+
+      expect(history.isPaused()).toBe(true);
+      expect(history.isRecording()).toBe(true);
+
+      clock.advance(10000);
+      history.resume();
+      clock.advance(100);
+      press(clock, 'b', 'KeyB');
+      history.stop();
+
+      expect(history.isPaused()).toBe(false);
+      expect(history.getRecordedKeys().map(event => [event.key, event.timestamp])).toEqual([['a', 100], ['b', 250]]);
+    });
+
+    it('should keep the wall-clock gap with the preserve pause mode', () => {
+      const { clock, history } = startClockHistory({ pauseMode: 'preserve' });
+
+      history.pause();
+      clock.advance(10000);
+      history.resume();
+      clock.advance(100);
+      press(clock, 'b', 'KeyB');
+
+      expect(history.getRecordedKeys()[0].timestamp).toBe(10100);
+    });
+
+    it('should compress several pauses', () => {
+      const { clock, history } = startClockHistory();
+
+      clock.advance(100);
+      history.pause();
+      clock.advance(1000);
+      history.resume();
+      clock.advance(100);
+      history.pause();
+      clock.advance(2000);
+      history.resume();
+      clock.advance(100);
+      press(clock, 'c', 'KeyC');
+
+      expect(history.getRecordedKeys()[0].timestamp).toBe(300);
+    });
+
+    it('should handle pause() and resume() gracefully when they do not apply', () => {
+      const history = new KeyboardHistory();
+
+      expect(() => history.pause()).not.toThrow();
+      expect(history.isPaused()).toBe(false);
+
+      history.start();
+      expect(() => history.resume()).not.toThrow();
+      history.pause();
+      history.pause();
+      expect(history.isPaused()).toBe(true);
+
+      history.start();
+      expect(history.isPaused()).toBe(true);
+      history.stop();
+      expect(history.isPaused()).toBe(false);
+      expect(history.isRecording()).toBe(false);
+    });
+  });
+
   describe('Configuration', () => {
     it('should pass configuration to EventReplay module', () => {
       const customEventName = 'myCustomReplayEvent';
@@ -110,6 +321,107 @@ describe('KeyboardHistory', () => {
     });
   });
 
+  describe('Replay Control', () => {
+    const externalEvents: KeyEvent[] = [
+      { key: 'a', code: 'KeyA', duration: 100, timestamp: 1000 },
+      { key: 'b', code: 'KeyB', duration: 150, timestamp: 1200 }
+    ];
+
+    afterEach(() => {
+      keyboardHistory.stopReplay();
+    });
+
+    it('should pause and resume replay', () => {
+      keyboardHistory.replay(externalEvents);
+      expect(keyboardHistory.isReplayPaused()).toBe(false);
+
+      keyboardHistory.pauseReplay();
+      expect(keyboardHistory.isReplaying()).toBe(true);
+      expect(keyboardHistory.isReplayPaused()).toBe(true);
+
+      keyboardHistory.resumeReplay();
+      expect(keyboardHistory.isReplaying()).toBe(true);
+      expect(keyboardHistory.isReplayPaused()).toBe(false);
+    });
+
+    it('should return a promise from replayAsync that rejects when the replay is stopped', async () => {
+      const promise = keyboardHistory.replayAsync(externalEvents);
+      expect(keyboardHistory.isReplaying()).toBe(true);
+
+      keyboardHistory.stopReplay();
+
+      await expect(promise).rejects.toBeInstanceOf(ReplayAbortError);
+    });
+
+    it('should resolve replayAsync immediately when there are no recorded events', async () => {
+      await expect(keyboardHistory.replayAsync()).resolves.toBeUndefined();
+      expect(keyboardHistory.isReplaying()).toBe(false);
+    });
+
+    it('should handle pause and resume gracefully when not replaying', () => {
+      expect(() => keyboardHistory.pauseReplay()).not.toThrow();
+      expect(() => keyboardHistory.resumeReplay()).not.toThrow();
+      expect(keyboardHistory.isReplayPaused()).toBe(false);
+    });
+  });
+
+  describe('Virtual Clock', () => {
+    it('should record and replay deterministically with a shared virtual clock', () => {
+      const clock = new VirtualClock(10000);
+      const history = new KeyboardHistory({ clock });
+
+      history.start();
+      const keydownHandler = mockAddEventListener.mock.calls.find(call => call[0] === 'keydown')![1];
+      const keyupHandler = mockAddEventListener.mock.calls.find(call => call[0] === 'keyup')![1];
+
+      clock.advance(100);
+      keydownHandler({ key: 'h', code: 'KeyH', repeat: false });
+      clock.advance(60);
+      keyupHandler({ key: 'h', code: 'KeyH', repeat: false });
+      clock.advance(40);
+      keydownHandler({ key: 'i', code: 'KeyI', repeat: false });
+      clock.advance(70);
+      keyupHandler({ key: 'i', code: 'KeyI', repeat: false });
+      history.stop();
+
+      expect(history.getRecordedKeys()).toMatchObject([
+        { key: 'h', code: 'KeyH', duration: 60, timestamp: 100 },
+        { key: 'i', code: 'KeyI', duration: 70, timestamp: 200 }
+      ]);
+
+      mockDispatchEvent.mockClear();
+      history.replay();
+      clock.runAll();
+
+      const replayedKeys = mockDispatchEvent.mock.calls
+        .map(call => call[0] as CustomEvent)
+        .filter(event => event.type === 'keyboardHistoryReplay')
+        .map(event => event.detail.key);
+      expect(replayedKeys).toEqual(['h', 'i']);
+      expect(history.isReplaying()).toBe(false);
+      expect(mockPerformanceNow).not.toHaveBeenCalled();
+    });
+
+    it('should record a key pressed at virtual time 0', () => {
+      const clock = new VirtualClock();
+      const history = new KeyboardHistory({ clock });
+      const updates: KeyStreamUpdate[] = [];
+      history.subscribe(update => updates.push(update));
+
+      history.start();
+      const keydownHandler = mockAddEventListener.mock.calls.find(call => call[0] === 'keydown')![1];
+      const keyupHandler = mockAddEventListener.mock.calls.find(call => call[0] === 'keyup')![1];
+
+      keydownHandler({ key: 'a', code: 'KeyA', repeat: false });
+      clock.advance(80);
+      expect(() => keyupHandler({ key: 'a', code: 'KeyA', repeat: false })).not.toThrow();
+      history.stop();
+
+      expect(history.getRecordedKeys()).toMatchObject([{ key: 'a', code: 'KeyA', duration: 80, timestamp: 0 }]);
+      expect(updates.map(update => update.type)).toEqual(['pending', 'complete']);
+    });
+  });
+
   describe('Property-Based Tests', () => {
     /**
      * **Feature: keyboard-history, Property 1: Class instantiation works correctly**
@@ -0,0 +1,32 @@
+import { RealClock } from '../src/RealClock';
+
+describe('RealClock', () => {
+  let clock: RealClock;
+
+  beforeEach(() => {
+    clock = new RealClock();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should read the time from performance.now()', () => {
+    (performance.now as jest.Mock).mockReturnValueOnce(1234.5);
+    expect(clock.now()).toBe(1234.5);
+  });
+
+  it('should schedule and cancel callbacks with the global timers', () => {
+    jest.useFakeTimers({ doNotFake: ['performance'] });
+    const kept = jest.fn();
+    const cancelled = jest.fn();
+
+    clock.setTimeout(kept, 100);
+    const handle = clock.setTimeout(cancelled, 100);
+    clock.clearTimeout(handle);
+    jest.advanceTimersByTime(100);
+
+    expect(kept).toHaveBeenCalledTimes(1);
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+});
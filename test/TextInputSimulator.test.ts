@@ -0,0 +1,176 @@
+import { TextInputSimulator } from '../src/TextInputSimulator';
+
+describe('TextInputSimulator', () => {
+  let simulator: TextInputSimulator;
+
+  beforeEach(() => {
+    simulator = new TextInputSimulator();
+    document.body.innerHTML = '';
+  });
+
+  const typeKeys = (target: EventTarget, keys: string[]) => keys.forEach(key => simulator.applyKey(target, key));
+
+  describe('input elements', () => {
+    let input: HTMLInputElement;
+
+    beforeEach(() => {
+      input = document.createElement('input');
+      document.body.appendChild(input);
+    });
+
+    it('should insert printable characters at the caret', () => {
+      typeKeys(input, ['h', 'i']);
+
+      expect(input.value).toBe('hi');
+      expect(input.selectionStart).toBe(2);
+    });
+
+    it('should replace the selected text', () => {
+      input.value = 'hello';
+      input.setSelectionRange(1, 4);
+
+      simulator.applyKey(input, 'a');
+
+      expect(input.value).toBe('hao');
+      expect(input.selectionStart).toBe(2);
+    });
+
+    it('should apply Backspace and Delete around the caret', () => {
+      input.value = 'abcd';
+      input.setSelectionRange(2, 2);
+
+      typeKeys(input, ['Backspace', 'Delete']);
+
+      expect(input.value).toBe('ad');
+      expect(input.selectionStart).toBe(1);
+    });
+
+    it('should move the caret with arrow, Home and End keys', () => {
+      input.value = 'abc';
+      input.setSelectionRange(3, 3);
+
+      typeKeys(input, ['ArrowLeft', 'ArrowLeft', 'x']);
+      expect(input.value).toBe('axbc');
+
+      typeKeys(input, ['Home', 'y', 'End', 'z', 'ArrowUp', 'ArrowRight', 'w']);
+      expect(input.value).toBe('ywaxbcz');
+    });
+
+    it('should ignore Enter and Tab in single-line inputs', () => {
+      input.value = 'abc';
+
+      expect(simulator.applyKey(input, 'Enter')).toBe(false);
+      expect(simulator.applyKey(input, 'Tab')).toBe(false);
+      expect(input.value).toBe('abc');
+    });
+
+    it('should ignore non-character keys such as modifiers', () => {
+      expect(simulator.applyKey(input, 'Shift')).toBe(false);
+      expect(input.value).toBe('');
+    });
+
+    it('should fire input events describing each edit', () => {
+      const events: InputEvent[] = [];
+      input.addEventListener('input', event => events.push(event as InputEvent));
+
+      typeKeys(input, ['a', 'Backspace', 'ArrowLeft']);
+
+      expect(events.map(event => event.inputType)).toEqual(['insertText', 'deleteContentBackward']);
+      expect(events[0].data).toBe('a');
+      expect(events[0].bubbles).toBe(true);
+    });
+
+    it('should not edit read-only or non-text inputs', () => {
+      input.readOnly = true;
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+
+      expect(simulator.applyKey(input, 'a')).toBe(false);
+      expect(simulator.applyKey(checkbox, 'a')).toBe(false);
+      expect(input.value).toBe('');
+    });
+  });
+
+  describe('textarea elements', () => {
+    let textarea: HTMLTextAreaElement;
+
+    beforeEach(() => {
+      textarea = document.createElement('textarea');
+      document.body.appendChild(textarea);
+    });
+
+    it('should insert line breaks and tabs', () => {
+      typeKeys(textarea, ['a', 'Enter', 'Tab', 'b']);
+
+      expect(textarea.value).toBe('a\n\tb');
+    });
+
+    it('should move between lines keeping the column', () => {
+      textarea.value = 'abcd\nef\nghij';
+      textarea.setSelectionRange(3, 3);
+
+      typeKeys(textarea, ['ArrowDown', 'x']);
+      expect(textarea.value).toBe('abcd\nefx\nghij');
+
+      typeKeys(textarea, ['ArrowDown', 'y', 'ArrowUp', 'ArrowUp', 'z']);
+      expect(textarea.value).toBe('abczd\nefx\nghiyj');
+    });
+  });
+
+  describe('contenteditable elements', () => {
+    let editor: HTMLDivElement;
+
+    beforeEach(() => {
+      editor = document.createElement('div');
+      editor.setAttribute('contenteditable', 'true');
+      document.body.appendChild(editor);
+    });
+
+    it('should type into an empty contenteditable element', () => {
+      typeKeys(editor, ['h', 'i', 'Enter', '!']);
+
+      expect(editor.textContent).toBe('hi\n!');
+    });
+
+    it('should edit at the current selection and preserve markup', () => {
+      editor.innerHTML = 'ab<b>cd</b>ef';
+      const range = document.createRange();
+      range.setStart(editor.querySelector('b')!.firstChild!, 1);
+      range.collapse(true);
+      document.getSelection()!.removeAllRanges();
+      document.getSelection()!.addRange(range);
+
+      typeKeys(editor, ['x', 'ArrowRight', 'Backspace']);
+
+      expect(editor.innerHTML).toBe('ab<b>cx</b>ef');
+    });
+
+    it('should edit the editing host when the target is a descendant', () => {
+      editor.innerHTML = '<p>text</p>';
+
+      simulator.applyKey(editor.querySelector('p')!, '!');
+
+      expect(editor.textContent).toBe('text!');
+    });
+
+    it('should not edit elements with contenteditable="false"', () => {
+      editor.setAttribute('contenteditable', 'false');
+
+      expect(simulator.applyKey(editor, 'a')).toBe(false);
+    });
+  });
+
+  it('should fall back to the focused element when the target is not editable', () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    input.focus();
+
+    simulator.applyKey(document, 'a');
+
+    expect(input.value).toBe('a');
+  });
+
+  it('should return false when nothing is editable', () => {
+    expect(simulator.applyKey(document, 'a')).toBe(false);
+  });
+});
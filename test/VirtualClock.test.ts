@@ -0,0 +1,96 @@
+import { VirtualClock } from '../src/VirtualClock';
+
+describe('VirtualClock', () => {
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+  });
+
+  describe('now', () => {
+    it('should start at 0 by default', () => {
+      expect(clock.now()).toBe(0);
+    });
+
+    it('should start at the provided time', () => {
+      expect(new VirtualClock(5000).now()).toBe(5000);
+    });
+
+    it('should only move when advanced', () => {
+      clock.advance(250);
+      expect(clock.now()).toBe(250);
+      expect(clock.now()).toBe(250);
+    });
+  });
+
+  describe('advance', () => {
+    it('should run timers that become due in chronological order', () => {
+      const calls: string[] = [];
+      clock.setTimeout(() => calls.push('late'), 300);
+      clock.setTimeout(() => calls.push('early'), 100);
+      clock.setTimeout(() => calls.push('same-time-second'), 100);
+
+      clock.advance(200);
+      expect(calls).toEqual(['early', 'same-time-second']);
+
+      clock.advance(100);
+      expect(calls).toEqual(['early', 'same-time-second', 'late']);
+    });
+
+    it('should expose the due time to callbacks', () => {
+      let observedTime = -1;
+      clock.setTimeout(() => {
+        observedTime = clock.now();
+      }, 120);
+
+      clock.advance(1000);
+
+      expect(observedTime).toBe(120);
+      expect(clock.now()).toBe(1000);
+    });
+
+    it('should run timers scheduled by callbacks within the advanced interval', () => {
+      const calls: number[] = [];
+      clock.setTimeout(() => {
+        calls.push(clock.now());
+        clock.setTimeout(() => calls.push(clock.now()), 50);
+      }, 100);
+
+      clock.advance(200);
+
+      expect(calls).toEqual([100, 150]);
+    });
+
+    it('should reject negative or non-finite amounts', () => {
+      expect(() => clock.advance(-1)).toThrow('Virtual clock can only advance by a non-negative number of milliseconds');
+      expect(() => clock.advance(Infinity)).toThrow('Virtual clock can only advance by a non-negative number of milliseconds');
+    });
+  });
+
+  describe('clearTimeout', () => {
+    it('should cancel a pending timer', () => {
+      const callback = jest.fn();
+      const handle = clock.setTimeout(callback, 100);
+
+      clock.clearTimeout(handle);
+      clock.advance(200);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+  });
+
+  describe('runAll', () => {
+    it('should run every pending timer and move time to the last one', () => {
+      const callback = jest.fn();
+      clock.setTimeout(callback, 100);
+      clock.setTimeout(callback, 10000);
+
+      clock.runAll();
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(clock.now()).toBe(10000);
+      expect(clock.getPendingTimerCount()).toBe(0);
+    });
+  });
+});